@@ -0,0 +1,569 @@
+import { describe, it, expect } from "vitest";
+import {
+  moveCard,
+  moveCardToDay,
+  moveCardToSection,
+  moveCardToFile,
+  rollOverWeek,
+  toggleSubTask,
+  editCard,
+  resolveRelativeDueDates,
+  setPriority,
+  deleteCard,
+  addCard,
+  getCardLineRange,
+  cardIdAfterEdits,
+} from "./edits.js";
+import { EditError, applyTextEdits } from "./textEdit.js";
+import { parseBoard } from "../parser/parser.js";
+import { allCards } from "../models/types.js";
+import { parseDuration } from "../models/duration.js";
+
+const PLANNER = `---
+week: 7
+year: 2026
+tags: [planner]
+---
+
+## Monday, February 9, 2026
+
+- [ ] Review PRs #work [2026-02-09] !!
+  - [x] PR #123
+
+  - [ ] PR #456
+  Body note
+- [x] Standup
+
+## Tuesday, February 10, 2026
+
+- [/] Write parser est:4h
+
+## Backlog
+
+### Now
+
+- [ ] Fix bug !!!
+
+### Next 2 Weeks
+
+## Parking Lot
+
+- [ ] Rewrite in Rust
+`;
+
+/** ID of the first card whose title starts with `title`. */
+function idOf(text: string, title: string): string {
+  const card = allCards(parseBoard(text)).find((c) => c.title.startsWith(title));
+  if (!card) throw new Error(`no card ${title}`);
+  return card.id;
+}
+
+describe("getCardLineRange", () => {
+  it("includes sub-tasks, body and inner blank lines", () => {
+    const lines = PLANNER.split("\n");
+    const start = lines.indexOf("- [ ] Review PRs #work [2026-02-09] !!");
+    expect(getCardLineRange(lines, start)).toEqual([start, start + 5]);
+  });
+});
+
+describe("moveCard", () => {
+  it("rewrites only the checkbox", () => {
+    const edits = moveCard(PLANNER, idOf(PLANNER, "Standup"), "in-progress");
+    expect(edits).toHaveLength(1);
+    expect(applyTextEdits(PLANNER, edits)).toBe(
+      PLANNER.replace("- [x] Standup", "- [/] Standup"),
+    );
+  });
+
+  it("keeps the list marker of the line", () => {
+    const text = PLANNER.replace("- [x] Standup", "* [x] Standup").replace(
+      "- [ ] Fix bug !!!",
+      "1. [ ] Fix bug !!!",
+    );
+    const moved = applyTextEdits(text, moveCard(text, idOf(text, "Standup"), "todo"));
+    expect(moved).toContain("\n* [ ] Standup\n");
+    const edited = applyTextEdits(text, setPriority(text, idOf(text, "Fix bug"), "low"));
+    expect(edited).toContain("\n1. [ ] Fix bug !\n");
+  });
+
+  it("writes the extended states", () => {
+    const id = idOf(PLANNER, "Standup");
+    expect(applyTextEdits(PLANNER, moveCard(PLANNER, id, "blocked"))).toContain("- [!] Standup\n");
+    const cancelled = applyTextEdits(PLANNER, moveCard(PLANNER, id, "cancelled"));
+    expect(applyTextEdits(cancelled, moveCard(cancelled, id, "deferred"))).toContain("- [>] Standup\n");
+  });
+
+  it("adds the next occurrence when a recurring card is completed", () => {
+    const text = PLANNER.replace("- [x] Standup", "- [ ] Standup every:daily ^standup");
+    const result = applyTextEdits(text, moveCard(text, "^standup", "done"));
+    expect(result).toContain("- [x] Standup every:daily ^standup\n");
+    expect(result).toContain("- [/] Write parser est:4h\n- [ ] Standup [2026-02-10] every:daily\n");
+  });
+
+  it("sends an occurrence outside the week to the backlog", () => {
+    const text = PLANNER.replace("- [x] Standup", "- [/] Weekly report every:weekly\n  - [x] Draft");
+    const result = applyTextEdits(text, moveCard(text, idOf(text, "Weekly report"), "done"));
+    expect(result).toContain(
+      "- [ ] Fix bug !!!\n- [ ] Weekly report [2026-02-16] every:weekly\n  - [ ] Draft\n",
+    );
+  });
+
+  it("stamps started: and done: dates when asked", () => {
+    const options = { stampDates: true, today: "2026-02-10" };
+    const id = idOf(PLANNER, "Fix bug");
+    const started = applyTextEdits(PLANNER, moveCard(PLANNER, id, "in-progress", options));
+    expect(started).toContain("- [/] Fix bug !!! started:2026-02-10\n");
+    const done = applyTextEdits(started, moveCard(started, id, "done", options));
+    expect(done).toContain("- [x] Fix bug !!! started:2026-02-10 done:2026-02-10\n");
+    expect(applyTextEdits(done, moveCard(done, id, "todo", options))).toBe(PLANNER);
+    // Without the option the line keeps its stamps
+    expect(applyTextEdits(done, moveCard(done, id, "todo"))).toContain("- [ ] Fix bug !!! started:2026-02-10 done:");
+  });
+
+  it("rejects unknown cards and states", () => {
+    expect(() => moveCard(PLANNER, "card-999", "done")).toThrow(EditError);
+    expect(() =>
+      moveCard(PLANNER, idOf(PLANNER, "Standup"), "someday" as never),
+    ).toThrow("Invalid status: someday");
+  });
+});
+
+describe("stale edits", () => {
+  it("refuses when the card's line changed since it was rendered", () => {
+    const id = idOf(PLANNER, "Standup");
+    const changed = PLANNER.replace("- [x] Standup", "- [/] Standup");
+    expect(() =>
+      moveCard(changed, id, "done", { expectedRawLine: "- [x] Standup" }),
+    ).toThrow(/changed in the editor/);
+  });
+
+  it("still finds the card after lines are inserted above it", () => {
+    const id = idOf(PLANNER, "Standup");
+    const changed = PLANNER.replace("## Monday, February 9, 2026\n", "## Monday, February 9, 2026\n\nNotes\n");
+    const edits = moveCard(changed, id, "todo", { expectedRawLine: "- [x] Standup" });
+    expect(applyTextEdits(changed, edits)).toContain("- [ ] Standup");
+  });
+
+  it("refuses to toggle a sub-task whose line moved", () => {
+    const lines = PLANNER.split("\n");
+    const lineNumber = lines.indexOf("  - [x] PR #123") + 1;
+    expect(() =>
+      toggleSubTask(PLANNER, lineNumber + 2, { expectedRawLine: "  - [x] PR #123" }),
+    ).toThrow(EditError);
+  });
+});
+
+describe("moveCardToDay", () => {
+  it("moves the whole card block and sets its state", () => {
+    const edits = moveCardToDay(
+      PLANNER,
+      idOf(PLANNER, "Review PRs"),
+      "Tuesday",
+      "in-progress",
+    );
+    expect(edits).toHaveLength(2);
+
+    const result = applyTextEdits(PLANNER, edits);
+    expect(result).toContain(
+      "## Monday, February 9, 2026\n\n- [x] Standup\n\n## Tuesday",
+    );
+    expect(result).toContain(
+      "- [/] Write parser est:4h\n- [/] Review PRs #work [2026-02-09] !!\n  - [x] PR #123\n\n  - [ ] PR #456\n  Body note\n\n## Backlog",
+    );
+  });
+
+  it("only changes the state when the card is already last in that day", () => {
+    const edits = moveCardToDay(PLANNER, idOf(PLANNER, "Standup"), "Monday", "todo");
+    expect(edits).toHaveLength(1);
+    expect(applyTextEdits(PLANNER, edits)).toBe(
+      PLANNER.replace("- [x] Standup", "- [ ] Standup"),
+    );
+  });
+
+  it("preserves CRLF line endings", () => {
+    const crlf = PLANNER.replace(/\n/g, "\r\n");
+    const edits = moveCardToDay(crlf, idOf(crlf, "Standup"), "Tuesday", "done");
+    const result = applyTextEdits(crlf, edits);
+    expect(result).not.toMatch(/[^\r]\n/);
+    expect(result).toContain("- [/] Write parser est:4h\r\n- [x] Standup\r\n");
+  });
+
+  it("finds localized day headings through the parsed board", () => {
+    const text = PLANNER.replace("## Tuesday, February 10, 2026", "## Dienstag, 10. Februar 2026");
+    const edits = moveCardToDay(text, idOf(text, "Standup"), "Tuesday", "done", { locale: "de" });
+    expect(applyTextEdits(text, edits)).toContain("- [/] Write parser est:4h\n- [x] Standup\n");
+  });
+
+  it("adds the next occurrence when a recurring card is completed on another day", () => {
+    const text = PLANNER.replace("- [x] Standup", "- [ ] Standup every:daily ^standup");
+    const result = applyTextEdits(text, moveCardToDay(text, "^standup", "Tuesday", "done"));
+    expect(result).toContain(
+      "- [/] Write parser est:4h\n- [x] Standup every:daily ^standup\n- [ ] Standup [2026-02-10] every:daily\n",
+    );
+
+    const weekly = PLANNER.replace("- [x] Standup", "- [ ] Weekly report every:weekly");
+    const moved = applyTextEdits(
+      weekly,
+      moveCardToDay(weekly, idOf(weekly, "Weekly report"), "Tuesday", "done"),
+    );
+    expect(moved).toContain("- [/] Write parser est:4h\n- [x] Weekly report every:weekly\n");
+    expect(moved).toContain("- [ ] Fix bug !!!\n- [ ] Weekly report [2026-02-16] every:weekly\n");
+  });
+
+  it("reports a missing day section", () => {
+    expect(() =>
+      moveCardToDay(PLANNER, idOf(PLANNER, "Standup"), "Sunday", "todo"),
+    ).toThrow("Day section not found: Sunday");
+  });
+});
+
+describe("moveCardToSection", () => {
+  it("moves a card into an empty backlog bucket", () => {
+    const edits = moveCardToSection(PLANNER, idOf(PLANNER, "Fix bug"), "next-2-weeks");
+    const result = applyTextEdits(PLANNER, edits);
+    expect(result).toContain("### Now\n\n\n### Next 2 Weeks\n- [ ] Fix bug !!!\n\n## Parking Lot");
+  });
+
+  it("moves a card to the last section of a file without a trailing newline", () => {
+    const text = PLANNER.trimEnd();
+    const edits = moveCardToSection(text, idOf(text, "Standup"), "parking-lot");
+    expect(applyTextEdits(text, edits).endsWith("- [ ] Rewrite in Rust\n- [x] Standup")).toBe(true);
+  });
+
+  it("moves a card into a bucket from the workspace schema", () => {
+    const text = PLANNER.replace("### Next 2 Weeks", "### Icebox");
+    const schema = {
+      backlogBuckets: [
+        { key: "now", label: "Now" },
+        { key: "icebox", label: "Icebox" },
+      ],
+      longTermSections: [],
+    };
+    const edits = moveCardToSection(text, idOf(text, "Fix bug"), "icebox", { schema });
+    expect(applyTextEdits(text, edits)).toContain("### Icebox\n- [ ] Fix bug !!!\n");
+  });
+
+  it("reports an unknown section", () => {
+    expect(() =>
+      moveCardToSection(PLANNER, idOf(PLANNER, "Standup"), "someday"),
+    ).toThrow("Section not found: someday");
+  });
+});
+
+describe("moveCardToFile", () => {
+  const NEXT_WEEK = `---
+week: 8
+year: 2026
+---
+
+## Monday, February 16, 2026
+
+- [ ] Plan sprint
+
+## Backlog
+
+### Now
+`;
+
+  it("moves a card and its block to the same day in the other file", () => {
+    const { source, target } = moveCardToFile(PLANNER, NEXT_WEEK, idOf(PLANNER, "Review PRs"));
+    expect(applyTextEdits(PLANNER, source)).toContain(
+      "## Monday, February 9, 2026\n\n- [x] Standup\n",
+    );
+    expect(applyTextEdits(NEXT_WEEK, target)).toContain(
+      "- [ ] Plan sprint\n- [ ] Review PRs #work [2026-02-09] !!\n  - [x] PR #123\n\n  - [ ] PR #456\n  Body note\n\n## Backlog",
+    );
+  });
+
+  it("falls back to the first day and keeps backlog cards in their bucket", () => {
+    const day = moveCardToFile(PLANNER, NEXT_WEEK, idOf(PLANNER, "Write parser"));
+    expect(applyTextEdits(NEXT_WEEK, day.target)).toContain(
+      "- [ ] Plan sprint\n- [/] Write parser est:4h\n",
+    );
+    const bucket = moveCardToFile(PLANNER, NEXT_WEEK, idOf(PLANNER, "Fix bug"));
+    expect(applyTextEdits(NEXT_WEEK, bucket.target).endsWith("### Now\n- [ ] Fix bug !!!\n")).toBe(true);
+  });
+
+  it("reports a section the other file doesn't have", () => {
+    expect(() =>
+      moveCardToFile(PLANNER, NEXT_WEEK, idOf(PLANNER, "Rewrite in Rust")),
+    ).toThrow("Section not found: parking-lot");
+  });
+});
+
+describe("rollOverWeek", () => {
+  const NEXT_WEEK = `---
+week: 8
+year: 2026
+---
+
+## Monday, February 16, 2026
+
+## Tuesday, February 17, 2026
+
+## Backlog
+
+### Now
+
+### Next 2 Weeks
+`;
+
+  it("carries unfinished cards over and marks them deferred", () => {
+    const { source, target } = rollOverWeek(PLANNER, NEXT_WEEK);
+    const rolled = applyTextEdits(PLANNER, source);
+    expect(rolled).toContain("- [>] Review PRs #work [2026-02-09] !!\n  - [x] PR #123\n");
+    expect(rolled).toContain("- [x] Standup\n");
+    expect(rolled).toContain("- [>] Write parser est:4h\n");
+    expect(rolled).toContain("- [>] Fix bug !!!\n");
+    expect(rolled).toContain("- [ ] Rewrite in Rust\n");
+
+    const next = applyTextEdits(NEXT_WEEK, target);
+    expect(next).toContain(
+      "## Monday, February 16, 2026\n- [ ] Review PRs #work [2026-02-09] !!\n  - [x] PR #123\n\n  - [ ] PR #456\n  Body note\n\n## Tuesday",
+    );
+    expect(next).toContain("## Tuesday, February 17, 2026\n- [/] Write parser est:4h\n");
+    expect(next).toContain("### Now\n- [ ] Fix bug !!!\n");
+    expect(next).not.toContain("Standup");
+    expect(next).not.toContain("Rewrite in Rust");
+  });
+
+  it("counts rollovers and rolls over only the chosen cards", () => {
+    const text = PLANNER.replace("Fix bug !!!", "Fix bug !!! rolled:2");
+    const { source, target } = rollOverWeek(text, NEXT_WEEK, {
+      cardIds: [idOf(text, "Fix bug"), idOf(text, "Write parser")],
+      countRollovers: true,
+    });
+    expect(source).toHaveLength(2);
+    const next = applyTextEdits(NEXT_WEEK, target);
+    expect(next).toContain("- [ ] Fix bug !!! rolled:3\n");
+    expect(next).toContain("- [/] Write parser est:4h rolled:1\n");
+    expect(next).not.toContain("Review PRs");
+  });
+
+  it("uses the first day or bucket when next week lacks the card's own", () => {
+    const sparse = NEXT_WEEK.replace("## Monday, February 16, 2026\n\n", "").replace(
+      "### Now\n\n",
+      "",
+    );
+    const { source, target } = rollOverWeek(PLANNER, sparse);
+    expect(source).toHaveLength(3);
+    const next = applyTextEdits(sparse, target);
+    expect(next).toContain(
+      "## Tuesday, February 17, 2026\n- [ ] Review PRs #work [2026-02-09] !!\n  - [x] PR #123\n\n  - [ ] PR #456\n  Body note\n- [/] Write parser est:4h\n",
+    );
+    expect(next).toContain("### Next 2 Weeks\n- [ ] Fix bug !!!\n");
+  });
+});
+
+describe("toggleSubTask", () => {
+  it("toggles sub-tasks under any list marker", () => {
+    const text = PLANNER.replace("  - [ ] PR #456", "  + [ ] PR #456");
+    const lineNumber = text.split("\n").indexOf("  + [ ] PR #456") + 1;
+    const result = applyTextEdits(text, toggleSubTask(text, lineNumber));
+    expect(result.split("\n")[lineNumber - 1]).toBe("  + [/] PR #456");
+  });
+
+  it("cycles [ ] → [/] → [x] → [ ]", () => {
+    const lines = PLANNER.split("\n");
+    const lineNumber = lines.indexOf("  - [ ] PR #456") + 1;
+
+    const step1 = applyTextEdits(PLANNER, toggleSubTask(PLANNER, lineNumber));
+    expect(step1.split("\n")[lineNumber - 1]).toBe("  - [/] PR #456");
+    const step2 = applyTextEdits(step1, toggleSubTask(step1, lineNumber));
+    expect(step2.split("\n")[lineNumber - 1]).toBe("  - [x] PR #456");
+    const step3 = applyTextEdits(step2, toggleSubTask(step2, lineNumber));
+    expect(step3).toBe(PLANNER);
+  });
+
+  it("completes the nested sub-tasks of a completed sub-task", () => {
+    const text = PLANNER.replace(
+      "  - [ ] PR #456\n",
+      "  - [/] PR #456\n    - [ ] Docs\n    - [x] Code\n    - [-] Demo\n",
+    );
+    const lineNumber = text.split("\n").indexOf("  - [/] PR #456") + 1;
+    const result = applyTextEdits(text, toggleSubTask(text, lineNumber));
+    expect(result).toContain(
+      "  - [x] PR #456\n    - [x] Docs\n    - [x] Code\n    - [-] Demo\n  Body note",
+    );
+  });
+
+  it("resets a blocked sub-task to to-do", () => {
+    const text = PLANNER.replace("  - [ ] PR #456", "  - [!] PR #456");
+    const lineNumber = text.split("\n").indexOf("  - [!] PR #456") + 1;
+    expect(applyTextEdits(text, toggleSubTask(text, lineNumber))).toBe(PLANNER);
+  });
+
+  it("ignores lines without a checkbox", () => {
+    expect(toggleSubTask(PLANNER, 1)).toEqual([]);
+    expect(toggleSubTask(PLANNER, 999)).toEqual([]);
+  });
+});
+
+describe("editCard", () => {
+  it("rebuilds the title line with overrides", () => {
+    const id = idOf(PLANNER, "Review PRs");
+    const result = applyTextEdits(
+      PLANNER,
+      editCard(PLANNER, id, { title: "Review all PRs", dueDate: null, timeEstimate: parseDuration("1h") }),
+    );
+    expect(result).toContain("- [ ] Review all PRs #work !! est:1h\n  - [x] PR #123");
+  });
+
+  it("replaces the project tag and keeps context tags", () => {
+    const text = PLANNER.replace("Review PRs #work", "Review PRs #work #waiting");
+    const result = applyTextEdits(text, editCard(text, idOf(text, "Review PRs"), { project: "team" }));
+    expect(result).toContain("- [ ] Review PRs #team #waiting [2026-02-09] !!\n");
+  });
+
+  it("keeps the Obsidian Tasks dialect of a line", () => {
+    const text = PLANNER.replace("- [ ] Fix bug !!!", "- [ ] Fix bug ⏫ 🔁 every week 📅 2026-02-12");
+    const id = idOf(text, "Fix bug");
+    const result = applyTextEdits(text, editCard(text, id, { priority: "low", timeEstimate: parseDuration("1h") }));
+    expect(result).toContain("- [ ] Fix bug est:1h 🔽 🔁 every week 📅 2026-02-12\n");
+  });
+
+  it("keeps the Obsidian Tasks created date of a line", () => {
+    const text = PLANNER.replace("- [ ] Fix bug !!!", "- [ ] Water plants 🔼 ➕ 2026-02-01 📅 2026-02-10");
+    const id = idOf(text, "Water plants");
+    const result = applyTextEdits(text, setPriority(text, id, "high"));
+    expect(result).toContain("- [ ] Water plants ⏫ ➕ 2026-02-01 📅 2026-02-10\n");
+    const edited = applyTextEdits(result, editCard(result, idOf(result, "Water plants"), { title: "Water ferns" }));
+    expect(edited).toContain("- [ ] Water ferns ⏫ ➕ 2026-02-01 📅 2026-02-10\n");
+  });
+
+  it("keeps @mentions when rebuilding a line", () => {
+    const text = PLANNER.replace("- [ ] Fix bug !!!", "- [ ] Fix bug @alice !!! @bob");
+    const result = applyTextEdits(text, editCard(text, idOf(text, "Fix bug"), { title: "Fix crash" }));
+    expect(result).toContain("- [ ] Fix crash @alice @bob !!!\n");
+  });
+
+  it("keeps dependencies when rebuilding a line", () => {
+    const text = PLANNER.replace("- [ ] Fix bug !!!", "- [ ] Fix bug after:^standup !!!");
+    const result = applyTextEdits(text, setPriority(text, idOf(text, "Fix bug"), "low"));
+    expect(result).toContain("- [ ] Fix bug ! after:^standup\n");
+  });
+
+  it("logs spent time without changing the card's ID", () => {
+    const id = idOf(PLANNER, "Review PRs");
+    const once = applyTextEdits(PLANNER, editCard(PLANNER, id, { timeSpent: parseDuration("45m") }));
+    expect(once).toContain("- [ ] Review PRs #work [2026-02-09] !! spent:45m\n");
+    const twice = applyTextEdits(once, editCard(once, id, { timeSpent: parseDuration("1h30m") }));
+    expect(twice).toContain("!! spent:1h30m\n");
+  });
+
+  it("keeps a relative due date relative", () => {
+    const text = PLANNER.replace("- [ ] Fix bug !!!", "- [ ] Call due:tomorrow #proj");
+    const id = idOf(text, "Call");
+    expect(applyTextEdits(text, setPriority(text, id, "high"))).toContain(
+      "- [ ] Call #proj due:tomorrow !!!\n",
+    );
+    expect(
+      applyTextEdits(text, editCard(text, id, { title: "Call back", timeSpent: parseDuration("15m") })),
+    ).toContain("- [ ] Call back #proj due:tomorrow spent:15m\n");
+    expect(applyTextEdits(text, editCard(text, id, { dueDate: "2026-02-12" }))).toContain(
+      "- [ ] Call #proj [2026-02-12]\n",
+    );
+  });
+
+  it("sets and clears priority", () => {
+    const id = idOf(PLANNER, "Fix bug");
+    expect(applyTextEdits(PLANNER, setPriority(PLANNER, id, "low"))).toContain("- [ ] Fix bug !\n");
+    expect(applyTextEdits(PLANNER, setPriority(PLANNER, id, null))).toContain("- [ ] Fix bug\n");
+  });
+});
+
+describe("resolveRelativeDueDates", () => {
+  it("rewrites relative due dates as ISO dates", () => {
+    const text = PLANNER.replace("- [ ] Fix bug !!!", "- [ ] Fix bug due:fri !!!").replace(
+      "- [/] Write parser est:4h",
+      "- [/] Write parser est:4h due:+1d",
+    );
+    const result = applyTextEdits(text, resolveRelativeDueDates(text, { today: "2026-02-10" }));
+    expect(result).toContain("- [ ] Fix bug [2026-02-13] !!!\n");
+    expect(result).toContain("- [/] Write parser est:4h [2026-02-11]\n");
+  });
+
+  it("counts from the week's start for another week's file", () => {
+    const text = PLANNER.replace("- [ ] Fix bug !!!", "- [ ] Fix bug due:tomorrow");
+    const result = applyTextEdits(text, resolveRelativeDueDates(text, { today: "2026-06-01" }));
+    expect(result).toContain("- [ ] Fix bug [2026-02-10]\n");
+  });
+});
+
+describe("deleteCard", () => {
+  it("removes the card block", () => {
+    const result = applyTextEdits(PLANNER, deleteCard(PLANNER, idOf(PLANNER, "Review PRs")));
+    expect(result).toContain("## Monday, February 9, 2026\n\n- [x] Standup\n");
+    expect(result).not.toContain("PR #456");
+  });
+
+  it("removes the last card of a file without a trailing newline", () => {
+    const text = PLANNER.trimEnd();
+    const result = applyTextEdits(text, deleteCard(text, idOf(text, "Rewrite")));
+    expect(result.endsWith("## Parking Lot\n")).toBe(true);
+  });
+});
+
+describe("addCard", () => {
+  it("appends a to-do card to a day", () => {
+    const result = applyTextEdits(PLANNER, addCard(PLANNER, "Plan sprint", { day: "Tuesday" }));
+    expect(result).toContain("- [/] Write parser est:4h\n- [ ] Plan sprint\n\n## Backlog");
+  });
+
+  it("never inserts into a code fence", () => {
+    const text = PLANNER.replace(
+      "- [/] Write parser est:4h\n",
+      "- [/] Write parser est:4h\n\n```\n## Not a heading\n",
+    ).replace("## Backlog", "```\n\n## Backlog");
+    const closed = applyTextEdits(text, addCard(text, "Plan sprint", { day: "Tuesday" }));
+    expect(closed).toContain("## Not a heading\n\n```\n- [ ] Plan sprint\n");
+
+    // A fence left open runs to the end of the file: insert in front of it
+    const open = PLANNER.replace("- [/] Write parser est:4h\n", "- [/] Write parser est:4h\n```\n");
+    const result = applyTextEdits(open, addCard(open, "Plan sprint", { day: "Tuesday" }));
+    expect(result).toContain("- [/] Write parser est:4h\n- [ ] Plan sprint\n```\n");
+  });
+
+  it("appends a to-do card to a section", () => {
+    const result = applyTextEdits(PLANNER, addCard(PLANNER, "Triage", { section: "now" }));
+    expect(result).toContain("- [ ] Fix bug !!!\n- [ ] Triage\n");
+  });
+});
+
+describe("cardIdAfterEdits", () => {
+  /** The card with `id` in `text`. */
+  function cardOf(text: string, id: string | undefined) {
+    return allCards(parseBoard(text)).find((c) => c.id === id);
+  }
+
+  it("follows a moved card past one with the same title", () => {
+    const text = PLANNER.replace("- [/] Write parser est:4h", "- [ ] Standup");
+    const id = idOf(text, "Standup");
+    const edits = moveCardToDay(text, id, "Tuesday", "done");
+    const result = applyTextEdits(text, edits);
+
+    const moved = cardOf(result, cardIdAfterEdits(text, edits, id));
+    expect(moved?.status).toBe("done");
+    expect(moved?.lineNumber).toBe(result.split("\n").indexOf("- [x] Standup") + 1);
+  });
+
+  it("follows a card whose duplicate moved away", () => {
+    const text = PLANNER.replace("- [x] Standup", "- [x] Standup\n- [ ] Standup");
+    const [first, second] = allCards(parseBoard(text)).filter((c) => c.title === "Standup");
+    const edits = moveCardToSection(text, first.id, "now");
+    const result = applyTextEdits(text, edits);
+
+    const remaining = cardOf(result, cardIdAfterEdits(text, edits, second.id));
+    expect(remaining?.status).toBe("todo");
+    expect(remaining?.day).toBe("Monday");
+    expect(cardOf(result, cardIdAfterEdits(text, edits, first.id))?.section).toBe("now");
+  });
+
+  it("follows a retitled card and drops a deleted one", () => {
+    const id = idOf(PLANNER, "Fix bug");
+    const retitled = editCard(PLANNER, id, { title: "Fix crash" });
+    const result = applyTextEdits(PLANNER, retitled);
+    expect(cardOf(result, cardIdAfterEdits(PLANNER, retitled, id))?.title).toBe("Fix crash");
+    expect(cardIdAfterEdits(PLANNER, deleteCard(PLANNER, id), id)).toBeUndefined();
+  });
+});
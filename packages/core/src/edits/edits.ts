@@ -0,0 +1,712 @@
+import type { BoardData, Card, Priority, TaskStatus } from "../models/types.js";
+import { allCards, allSubTasks } from "../models/types.js";
+import { nextOccurrence } from "../models/recurrence.js";
+import { parseBoard } from "../parser/parser.js";
+import type { ParseOptions } from "../parser/parser.js";
+import {
+  CHECKBOX_MARKER_RE,
+  isTaskStatus,
+  replaceCheckbox,
+} from "../parser/tasks.js";
+import { scanVerbatim } from "../parser/verbatim.js";
+import { formatTaskLine } from "../serializer/taskLine.js";
+import type { TaskLineOverrides } from "../serializer/taskLine.js";
+import { isValidIsoDate } from "../utils/dates.js";
+import {
+  EditError,
+  applyTextEdits,
+  deleteLines,
+  detectEol,
+  insertLines,
+  lineOffsets,
+  replaceLine,
+  splitLines,
+} from "./textEdit.js";
+import type { TextEdit, TextPosition } from "./textEdit.js";
+
+/**
+ * Guards against applying an edit to a file that changed after the board was
+ * rendered, plus the options the file is parsed with.
+ */
+export interface EditOptions extends ParseOptions {
+  /** The card's (or sub-task's) `rawLine` as the caller last saw it. */
+  expectedRawLine?: string;
+  /**
+   * Record state changes on the title line: `started:` on entering
+   * in-progress, `done:` on completion, both cleared again on reopening.
+   */
+  stampDates?: boolean;
+}
+
+/** Where a new or moved card goes: a day section or a backlog/long-term section key. */
+export type CardTarget = { day: string } | { section: string };
+
+function assertFresh(
+  actual: string,
+  label: string,
+  options: EditOptions,
+): void {
+  if (
+    options.expectedRawLine !== undefined &&
+    options.expectedRawLine !== actual
+  ) {
+    throw new EditError(
+      `"${label}" was changed in the editor after the board was drawn. Nothing was modified — try again on the refreshed board.`,
+    );
+  }
+}
+
+/** Look up a card by ID, refusing if its line no longer matches `expectedRawLine`. */
+export function findCard(
+  text: string,
+  cardId: string,
+  options: EditOptions = {},
+): Card {
+  return cardIn(parseBoard(text, options), cardId, options);
+}
+
+function cardIn(board: BoardData, cardId: string, options: EditOptions): Card {
+  const card = allCards(board).find((c) => c.id === cardId);
+  if (!card) {
+    throw new EditError(
+      `Card not found: ${cardId}. The file may have changed since the board was drawn.`,
+    );
+  }
+  assertFresh(card.rawLine, card.title, options);
+  return card;
+}
+
+function assertStatus(status: string): asserts status is TaskStatus {
+  if (!isTaskStatus(status)) throw new EditError(`Invalid status: ${status}`);
+}
+
+/**
+ * Get the full line range of a card (title line + indented children/body).
+ * Pointed at a sub-task line, gives that sub-task and everything nested under it.
+ * Returns [startIndex, endIndex) in 0-based line indices.
+ */
+export function getCardLineRange(
+  lines: string[],
+  cardLineIndex: number,
+): [number, number] {
+  const start = cardLineIndex;
+  let end = start + 1;
+
+  // The card's title line starts with optional whitespace + "- [" (or "* [", "1. [")
+  const titleIndent = lines[start].match(/^(\s*)/)?.[1].length ?? 0;
+
+  // Collect all following lines that are more indented (sub-tasks, body text)
+  while (end < lines.length) {
+    const line = lines[end];
+    // Empty lines within a card block — include if followed by indented content
+    if (line.trim() === "") {
+      // Peek ahead
+      if (end + 1 < lines.length) {
+        const nextIndent = lines[end + 1].match(/^(\s*)/)?.[1].length ?? 0;
+        if (nextIndent > titleIndent) {
+          end++;
+          continue;
+        }
+      }
+      break;
+    }
+    const lineIndent = line.match(/^(\s*)/)?.[1].length ?? 0;
+    if (lineIndent <= titleIndent) break;
+    end++;
+  }
+
+  return [start, end];
+}
+
+/**
+ * Index just past the last non-blank line before `boundary` matches, searching
+ * from `headingIndex`. Headings in code fences and comments don't count, and
+ * the index is never inside a fence or comment left open.
+ */
+function sectionEnd(
+  lines: string[],
+  headingIndex: number,
+  boundary: RegExp,
+): number {
+  const { verbatim, openSince } = scanVerbatim(lines);
+  let insertAt = headingIndex + 1;
+
+  // Skip past all content in this section
+  for (let j = headingIndex + 1; j < lines.length; j++) {
+    if (!verbatim[j] && boundary.test(lines[j])) break;
+    insertAt = j + 1;
+  }
+
+  // An unclosed fence or comment runs on: insert in front of it instead
+  if (openSince[insertAt - 1] >= 0) insertAt = openSince[insertAt - 1];
+
+  // Back up past trailing blank lines to insert before them
+  while (insertAt > headingIndex + 1 && lines[insertAt - 1].trim() === "") {
+    insertAt--;
+  }
+
+  return insertAt;
+}
+
+/**
+ * Find the insertion point for a card in the parsed `board`'s day section
+ * named `targetDay` (a canonical English day name, whatever the heading's
+ * language). Returns the 0-based line index where the card should be inserted.
+ */
+export function findDayInsertionPoint(
+  lines: string[],
+  board: BoardData,
+  targetDay: string,
+): number | null {
+  const day = board.days.find(
+    (d) => d.dayName.toLowerCase() === targetDay.toLowerCase(),
+  );
+  if (!day) return null;
+  // The section ends at the next ## heading or EOF
+  return sectionEnd(lines, day.lineNumber - 1, /^##\s/);
+}
+
+/**
+ * Find the insertion point for a card in a backlog bucket (`###`) or
+ * long-term section (`##`) of the parsed `board`, by section key.
+ */
+export function findSectionInsertionPoint(
+  lines: string[],
+  board: BoardData,
+  sectionKey: string,
+): number | null {
+  const bucket = board.backlog.find((b) => b.key === sectionKey);
+  if (bucket) return sectionEnd(lines, bucket.lineNumber - 1, /^#{1,3}\s/);
+  const section = board.longTerm.find((s) => s.key === sectionKey);
+  if (section) return sectionEnd(lines, section.lineNumber - 1, /^#{1,2}\s/);
+  return null;
+}
+
+function findTargetInsertionPoint(
+  lines: string[],
+  board: BoardData,
+  target: CardTarget,
+): number {
+  if ("day" in target) {
+    const insertAt = findDayInsertionPoint(lines, board, target.day);
+    if (insertAt === null) {
+      throw new EditError(`Day section not found: ${target.day}`);
+    }
+    return insertAt;
+  }
+  const insertAt = findSectionInsertionPoint(lines, board, target.section);
+  if (insertAt === null) {
+    throw new EditError(`Section not found: ${target.section}`);
+  }
+  return insertAt;
+}
+
+/** Stamp changes for a card entering `status`, or null if there are none. */
+function stampOverrides(
+  card: Card,
+  status: TaskStatus,
+  today: string,
+): TaskLineOverrides | null {
+  const overrides: TaskLineOverrides = {};
+  if (status === "done" && !card.completedDate) overrides.completedDate = today;
+  if (status === "in-progress" && !card.startedDate) overrides.startedDate = today;
+  // Reopening: to-do clears both stamps, in-progress only the completion
+  if ((status === "todo" || status === "in-progress") && card.completedDate) {
+    overrides.completedDate = null;
+  }
+  if (status === "todo" && card.startedDate) overrides.startedDate = null;
+  return Object.keys(overrides).length > 0 ? overrides : null;
+}
+
+/** The card's title line with its checkbox set to `status`, stamped if asked. */
+function titleWithStatus(
+  card: Card,
+  status: TaskStatus,
+  options: EditOptions,
+): string {
+  const overrides =
+    options.stampDates && options.today && status !== card.status
+      ? stampOverrides(card, status, options.today)
+      : null;
+  const line = overrides ? formatTaskLine(card, overrides) : card.rawLine;
+  return replaceCheckbox(line, status);
+}
+
+/** Move a card's whole block to `target`, optionally rewriting its title line. */
+function moveBlock(
+  text: string,
+  cardId: string,
+  target: CardTarget,
+  rewriteTitle: (card: Card) => string,
+  options: EditOptions,
+): TextEdit[] {
+  const board = parseBoard(text, options);
+  const card = cardIn(board, cardId, options);
+  const lines = splitLines(text);
+  const cardLineIndex = card.lineNumber - 1;
+  const [rangeStart, rangeEnd] = getCardLineRange(lines, cardLineIndex);
+  const insertAt = findTargetInsertionPoint(lines, board, target);
+
+  const newTitle = rewriteTitle(card);
+
+  // Already at the end of the target section — only the title line changes
+  if (insertAt >= rangeStart && insertAt <= rangeEnd) {
+    return newTitle === lines[cardLineIndex]
+      ? []
+      : [replaceLine(lines, cardLineIndex, newTitle)];
+  }
+
+  const cardLines = [newTitle, ...lines.slice(rangeStart + 1, rangeEnd)];
+  return [
+    deleteLines(lines, rangeStart, rangeEnd),
+    insertLines(lines, insertAt, cardLines, detectEol(text)),
+  ];
+}
+
+/**
+ * Add the next occurrence of a recurring card, due on the rule's next date
+ * after its current due date. It goes to the day section for that date, or
+ * else to the card's backlog bucket (the first bucket for day cards), or
+ * straight after the card when the file has no backlog.
+ */
+function nextOccurrenceEdit(
+  text: string,
+  board: BoardData,
+  card: Card,
+  options: EditOptions,
+): TextEdit | null {
+  if (!card.recurrence) return null;
+  const dayDate = board.days.find((d) => d.dayName === card.day)?.date;
+  const from = [card.dueDate, dayDate, options.today].find(
+    (date): date is string => date !== undefined && isValidIsoDate(date),
+  );
+  if (!from) return null;
+  const dueDate = nextOccurrence(card.recurrence, from);
+
+  const lines = splitLines(text);
+  const day = board.days.find((d) => d.date === dueDate);
+  const bucketKey = board.backlog.some((b) => b.key === card.section)
+    ? card.section
+    : board.backlog[0]?.key;
+  const insertAt = day
+    ? sectionEnd(lines, day.lineNumber - 1, /^##\s/)
+    : ((bucketKey !== undefined
+        ? findSectionInsertionPoint(lines, board, bucketKey)
+        : null) ?? getCardLineRange(lines, card.lineNumber - 1)[1]);
+
+  // A fresh copy: open, with open sub-tasks and no time logged, and without
+  // the anchor that identifies the completed card
+  const titleLine = formatTaskLine(
+    {
+      ...card,
+      timeSpent: undefined,
+      anchor: undefined,
+      scheduledDate: undefined,
+      startDate: undefined,
+      createdDate: undefined,
+      completedDate: undefined,
+      startedDate: undefined,
+      rolledOver: undefined,
+    },
+    { dueDate },
+  );
+  const newLines = [titleLine, ...card.rawBody].map((line) =>
+    replaceCheckbox(line, "todo"),
+  );
+  return insertLines(lines, insertAt, newLines, detectEol(text));
+}
+
+/**
+ * Change a card's checkbox state in place. Completing a recurring card also
+ * adds its next occurrence.
+ */
+export function moveCard(
+  text: string,
+  cardId: string,
+  newStatus: TaskStatus,
+  options: EditOptions = {},
+): TextEdit[] {
+  assertStatus(newStatus);
+  const board = parseBoard(text, options);
+  const card = cardIn(board, cardId, options);
+  const lines = splitLines(text);
+  const lineIndex = card.lineNumber - 1;
+  const edits = [
+    replaceLine(lines, lineIndex, titleWithStatus(card, newStatus, options)),
+  ];
+  if (newStatus === "done" && card.status !== "done") {
+    const next = nextOccurrenceEdit(text, board, card, options);
+    if (next) edits.push(next);
+  }
+  return edits;
+}
+
+/**
+ * Move a card (with its sub-tasks and body) to a day section and set its
+ * state. Completing a recurring card also adds its next occurrence.
+ */
+export function moveCardToDay(
+  text: string,
+  cardId: string,
+  targetDay: string,
+  newStatus: TaskStatus,
+  options: EditOptions = {},
+): TextEdit[] {
+  assertStatus(newStatus);
+  const edits = moveBlock(
+    text,
+    cardId,
+    { day: targetDay },
+    (card) => titleWithStatus(card, newStatus, options),
+    options,
+  );
+  if (newStatus !== "done") return edits;
+  const board = parseBoard(text, options);
+  const card = cardIn(board, cardId, options);
+  const next = card.status !== "done" ? nextOccurrenceEdit(text, board, card, options) : null;
+  if (!next) return edits;
+
+  // An occurrence due on the target day goes in right after the moved card
+  const start = next.range.start;
+  const sameSpot = edits.find(
+    (edit) =>
+      edit.newText !== "" &&
+      edit.range.start.line === start.line &&
+      edit.range.start.character === start.character &&
+      edit.range.end.line === start.line &&
+      edit.range.end.character === start.character,
+  );
+  if (!sameSpot) return [...edits, next];
+  return edits.map((edit) =>
+    edit === sameSpot ? { ...edit, newText: edit.newText + next.newText } : edit,
+  );
+}
+
+/** Move a card to a backlog bucket or long-term section, keeping its state. */
+export function moveCardToSection(
+  text: string,
+  cardId: string,
+  targetSection: string,
+  options: EditOptions = {},
+): TextEdit[] {
+  return moveBlock(
+    text,
+    cardId,
+    { section: targetSection },
+    (card) => card.rawLine,
+    options,
+  );
+}
+
+/**
+ * Where `card` goes in another planner, `board`: the same day of the week
+ * (the first day when there is no such day), or the same section.
+ */
+function matchingTarget(board: BoardData, card: Card): CardTarget {
+  if (card.day === undefined) return { section: card.section ?? "" };
+  const day = board.days.find((d) => d.dayName === card.day) ?? board.days[0];
+  if (!day) throw new EditError("The target planner has no day sections.");
+  return { day: day.dayName };
+}
+
+/**
+ * Where a rolled-over card goes in next week's planner, `board`: as with
+ * `matchingTarget`, except that a card whose day or section is missing
+ * there goes to the first day or backlog bucket, so one missing heading
+ * doesn't hold up the whole rollover.
+ */
+function rolloverTarget(board: BoardData, card: Card): CardTarget {
+  const sameDay = board.days.find((d) => d.dayName === card.day);
+  if (sameDay) return { day: sameDay.dayName };
+  if (board.backlog.some((b) => b.key === card.section)) {
+    return { section: card.section ?? "" };
+  }
+  const firstDay: CardTarget | undefined =
+    board.days.length > 0 ? { day: board.days[0].dayName } : undefined;
+  const firstBucket: CardTarget | undefined =
+    board.backlog.length > 0 ? { section: board.backlog[0].key } : undefined;
+  const target = card.day !== undefined ? firstDay ?? firstBucket : firstBucket ?? firstDay;
+  if (!target) {
+    throw new EditError("The next week's planner has no day sections or backlog buckets.");
+  }
+  return target;
+}
+
+/** Edits to both files for a card moving from one planner to another. */
+export interface FileMoveEdits {
+  source: TextEdit[];
+  target: TextEdit[];
+}
+
+/**
+ * Move a card (with its sub-tasks and body) out of `text` and into another
+ * planner, `targetText`: to the same day of the week there (its first day
+ * when it has no such day), or to the same backlog bucket or long-term
+ * section. The card keeps its state and metadata.
+ */
+export function moveCardToFile(
+  text: string,
+  targetText: string,
+  cardId: string,
+  options: EditOptions = {},
+): FileMoveEdits {
+  const card = findCard(text, cardId, options);
+  const lines = splitLines(text);
+  const [rangeStart, rangeEnd] = getCardLineRange(lines, card.lineNumber - 1);
+
+  const targetBoard = parseBoard(targetText, options);
+  const targetLines = splitLines(targetText);
+  const insertAt = findTargetInsertionPoint(
+    targetLines,
+    targetBoard,
+    matchingTarget(targetBoard, card),
+  );
+
+  return {
+    source: [deleteLines(lines, rangeStart, rangeEnd)],
+    target: [
+      insertLines(
+        targetLines,
+        insertAt,
+        lines.slice(rangeStart, rangeEnd),
+        detectEol(targetText),
+      ),
+    ],
+  };
+}
+
+/** Options for rolling a week over into the next. */
+export interface RolloverOptions extends EditOptions {
+  /** Only roll over these cards (default: every card `rolloverCards` gives). */
+  cardIds?: string[];
+  /** Count rollovers on the carried cards with `rolled:N`. */
+  countRollovers?: boolean;
+}
+
+/** The unfinished (to-do and in-progress) cards of the days and backlog buckets. */
+export function rolloverCards(board: BoardData): Card[] {
+  return [...board.days, ...board.backlog]
+    .flatMap((section) => section.cards)
+    .filter((card) => card.status === "todo" || card.status === "in-progress");
+}
+
+/**
+ * Carry a week's unfinished cards into the next week's planner, `targetText`,
+ * each with its sub-tasks and body, to the same day or backlog bucket there
+ * (or, when it lacks that one, its first day or bucket).
+ * The cards stay behind marked deferred (`[>]`), so the week keeps its
+ * history.
+ */
+export function rollOverWeek(
+  text: string,
+  targetText: string,
+  options: RolloverOptions = {},
+): FileMoveEdits {
+  const board = parseBoard(text, options);
+  const cards = rolloverCards(board).filter(
+    (card) => !options.cardIds || options.cardIds.includes(card.id),
+  );
+  const lines = splitLines(text);
+  const targetBoard = parseBoard(targetText, options);
+  const targetLines = splitLines(targetText);
+
+  // Cards for the same place go in as one insertion, in their original order
+  const insertions = new Map<number, string[]>();
+  const source: TextEdit[] = [];
+  for (const card of cards) {
+    const lineIndex = card.lineNumber - 1;
+    const [, rangeEnd] = getCardLineRange(lines, lineIndex);
+    const insertAt = findTargetInsertionPoint(
+      targetLines,
+      targetBoard,
+      rolloverTarget(targetBoard, card),
+    );
+    const title = options.countRollovers
+      ? formatTaskLine(card, { rolledOver: (card.rolledOver ?? 0) + 1 })
+      : card.rawLine;
+    insertions.set(insertAt, [
+      ...(insertions.get(insertAt) ?? []),
+      title,
+      ...lines.slice(lineIndex + 1, rangeEnd),
+    ]);
+    source.push(replaceLine(lines, lineIndex, replaceCheckbox(card.rawLine, "deferred")));
+  }
+
+  const eol = detectEol(targetText);
+  return {
+    source,
+    target: [...insertions].map(([insertAt, cardLines]) =>
+      insertLines(targetLines, insertAt, cardLines, eol),
+    ),
+  };
+}
+
+/**
+ * Cycle a sub-task checkbox: [ ] → [/] → [x] → [ ]; cancelled, blocked and
+ * deferred sub-tasks go back to [ ]. `lineNumber` is 1-based. Completing a
+ * sub-task also completes the sub-tasks nested under it.
+ */
+export function toggleSubTask(
+  text: string,
+  lineNumber: number,
+  options: EditOptions = {},
+): TextEdit[] {
+  const lines = splitLines(text);
+  const lineIndex = lineNumber - 1;
+  const oldLine = lines[lineIndex];
+  if (!oldLine) return [];
+  assertFresh(oldLine, oldLine.trim(), options);
+
+  const marker = oldLine.match(CHECKBOX_MARKER_RE)?.[1];
+  if (marker === undefined) return [];
+  const next: TaskStatus =
+    marker === " " ? "in-progress" : marker === "/" ? "done" : "todo";
+
+  const edits = [replaceLine(lines, lineIndex, replaceCheckbox(oldLine, next))];
+  if (next === "done") {
+    const [, end] = getCardLineRange(lines, lineIndex);
+    for (let i = lineIndex + 1; i < end; i++) {
+      // Cancelled sub-tasks stay cancelled
+      const childMarker = lines[i].match(CHECKBOX_MARKER_RE)?.[1];
+      if (childMarker !== undefined && childMarker !== "x" && childMarker !== "-") {
+        edits.push(replaceLine(lines, i, replaceCheckbox(lines[i], "done")));
+      }
+    }
+  }
+  return edits;
+}
+
+/** Rewrite a card's title line with new metadata; `null` clears a field. */
+export function editCard(
+  text: string,
+  cardId: string,
+  overrides: TaskLineOverrides,
+  options: EditOptions = {},
+): TextEdit[] {
+  const card = findCard(text, cardId, options);
+  const lines = splitLines(text);
+  const lineIndex = card.lineNumber - 1;
+  const newLine = formatTaskLine(card, overrides);
+  if (newLine === lines[lineIndex]) return [];
+  return [replaceLine(lines, lineIndex, newLine)];
+}
+
+/** Set or clear (`null`) a card's priority. */
+export function setPriority(
+  text: string,
+  cardId: string,
+  priority: Priority | null,
+  options: EditOptions = {},
+): TextEdit[] {
+  return editCard(text, cardId, { priority }, options);
+}
+
+/**
+ * Rewrite every relative due date (`due:tomorrow`, `due:+3d`) on cards and
+ * sub-tasks as the ISO date it resolves to today: `[2026-02-10]`.
+ */
+export function resolveRelativeDueDates(
+  text: string,
+  options: ParseOptions = {},
+): TextEdit[] {
+  const lines = splitLines(text);
+  const tasks = allCards(parseBoard(text, options)).flatMap((card) => [
+    card,
+    ...allSubTasks(card.subTasks),
+  ]);
+  const edits: TextEdit[] = [];
+  for (const task of tasks) {
+    if (!task.relativeDueDate || !task.dueDate) continue;
+    const lineIndex = task.lineNumber - 1;
+    const token = `due:${task.relativeDueDate}`;
+    const line = lines[lineIndex].replace(
+      new RegExp(`(^|\\s)${token.replace(/[+]/g, "\\+")}(?=\\s|$)`),
+      `$1[${task.dueDate}]`,
+    );
+    if (line !== lines[lineIndex]) edits.push(replaceLine(lines, lineIndex, line));
+  }
+  return edits;
+}
+
+/** Remove a card together with its sub-tasks and body. */
+export function deleteCard(
+  text: string,
+  cardId: string,
+  options: EditOptions = {},
+): TextEdit[] {
+  const card = findCard(text, cardId, options);
+  const lines = splitLines(text);
+  const [rangeStart, rangeEnd] = getCardLineRange(lines, card.lineNumber - 1);
+  return [deleteLines(lines, rangeStart, rangeEnd)];
+}
+
+/** Append a new to-do card at the end of a day or section. */
+export function addCard(
+  text: string,
+  title: string,
+  target: CardTarget,
+  options: ParseOptions = {},
+): TextEdit[] {
+  const lines = splitLines(text);
+  const insertAt = findTargetInsertionPoint(lines, parseBoard(text, options), target);
+  return [insertLines(lines, insertAt, [`- [ ] ${title}`], detectEol(text))];
+}
+
+/**
+ * The ID card `cardId` goes by once `edits` are applied to `text`, or
+ * undefined when they remove it. A card without an anchor is known by its
+ * section and text, so moving or retitling it changes its ID. The card is
+ * followed by position: an edit that rewrites its title line holds it in
+ * place, and one that deletes it moves it to the text another edit inserts,
+ * as the first card there with its title.
+ */
+export function cardIdAfterEdits(
+  text: string,
+  edits: TextEdit[],
+  cardId: string,
+  options: ParseOptions = {},
+): string | undefined {
+  const card = findCard(text, cardId, options);
+  const edited = applyTextEdits(text, edits);
+  const after = allCards(parseBoard(edited, options));
+
+  // Where each edit's text lands in the edited document. Of two edits at
+  // one position, the later one's text comes first (see applyTextEdits).
+  const oldStarts = lineOffsets(text);
+  const offsetOf = (pos: TextPosition) => oldStarts[pos.line] + pos.character;
+  let shift = 0;
+  const placed = edits
+    .map((edit, index) => ({
+      index,
+      start: offsetOf(edit.range.start),
+      end: offsetOf(edit.range.end),
+      length: edit.newText.length,
+    }))
+    .sort((a, b) => a.start - b.start || b.index - a.index)
+    .map((edit) => {
+      const from = edit.start + shift;
+      shift += edit.length - (edit.end - edit.start);
+      return { ...edit, from, to: from + edit.length };
+    });
+
+  const newStarts = lineOffsets(edited);
+  const startOf = (c: Card) => newStarts[c.lineNumber - 1];
+  const at = oldStarts[card.lineNumber - 1];
+  const replaced = placed.find((edit) => edit.start <= at && at < edit.end);
+  if (!replaced) {
+    // Untouched: only the text edited before the card shifts it
+    const moved = placed
+      .filter((edit) => edit.start <= at)
+      .reduce((sum, edit) => sum + edit.length - (edit.end - edit.start), 0);
+    return after.find((c) => startOf(c) === at + moved)?.id;
+  }
+
+  const inserted = (edit: (typeof placed)[number]) =>
+    after.filter((c) => startOf(c) >= edit.from && startOf(c) < edit.to);
+  const rewritten = inserted(replaced)[0];
+  if (rewritten) return rewritten.id;
+  return placed
+    .filter((edit) => edit !== replaced)
+    .flatMap(inserted)
+    .find((c) => c.title === card.title)?.id;
+}
@@ -0,0 +1,27 @@
+export {
+  moveCard,
+  moveCardToDay,
+  moveCardToSection,
+  moveCardToFile,
+  rollOverWeek,
+  rolloverCards,
+  toggleSubTask,
+  editCard,
+  resolveRelativeDueDates,
+  setPriority,
+  deleteCard,
+  addCard,
+  findCard,
+  cardIdAfterEdits,
+  getCardLineRange,
+  findDayInsertionPoint,
+  findSectionInsertionPoint,
+} from "./edits.js";
+export type {
+  CardTarget,
+  EditOptions,
+  FileMoveEdits,
+  RolloverOptions,
+} from "./edits.js";
+export { EditError, applyTextEdits } from "./textEdit.js";
+export type { TextEdit, TextRange, TextPosition } from "./textEdit.js";
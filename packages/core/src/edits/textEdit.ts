@@ -0,0 +1,118 @@
+/** A zero-based line/character position in a document. */
+export interface TextPosition {
+  line: number;
+  character: number;
+}
+
+export interface TextRange {
+  start: TextPosition;
+  end: TextPosition;
+}
+
+/** Replace `range` with `newText`. Edits in one list never overlap. */
+export interface TextEdit {
+  range: TextRange;
+  newText: string;
+}
+
+/** Thrown when an edit cannot be computed (missing card, unknown section...). */
+export class EditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EditError";
+  }
+}
+
+/** Split a document into lines without their line terminators. */
+export function splitLines(text: string): string[] {
+  return text.split(/\r?\n/);
+}
+
+/** The line terminator a document predominantly uses. */
+export function detectEol(text: string): "\n" | "\r\n" {
+  return text.includes("\r\n") ? "\r\n" : "\n";
+}
+
+/** Replace the whole of line `index` with `newText`. */
+export function replaceLine(
+  lines: string[],
+  index: number,
+  newText: string,
+): TextEdit {
+  return {
+    range: {
+      start: { line: index, character: 0 },
+      end: { line: index, character: lines[index].length },
+    },
+    newText,
+  };
+}
+
+/** Insert `newLines` before line `index` (or after the last line). */
+export function insertLines(
+  lines: string[],
+  index: number,
+  newLines: string[],
+  eol: string,
+): TextEdit {
+  if (index < lines.length) {
+    const position = { line: index, character: 0 };
+    return { range: { start: position, end: position }, newText: newLines.join(eol) + eol };
+  }
+  const last = lines.length - 1;
+  const position = { line: last, character: lines[last].length };
+  return { range: { start: position, end: position }, newText: eol + newLines.join(eol) };
+}
+
+/** Delete lines [start, end) including their line terminators. */
+export function deleteLines(lines: string[], start: number, end: number): TextEdit {
+  if (end < lines.length) {
+    return {
+      range: {
+        start: { line: start, character: 0 },
+        end: { line: end, character: 0 },
+      },
+      newText: "",
+    };
+  }
+  // Last line(s) — delete from end of previous line
+  const from =
+    start > 0
+      ? { line: start - 1, character: lines[start - 1].length }
+      : { line: 0, character: 0 };
+  return {
+    range: {
+      start: from,
+      end: { line: end - 1, character: lines[end - 1].length },
+    },
+    newText: "",
+  };
+}
+
+/** The offset in `text` at which each line starts. */
+export function lineOffsets(text: string): number[] {
+  const offsets = [0];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === "\n") offsets.push(i + 1);
+  }
+  return offsets;
+}
+
+/** Apply non-overlapping edits to `text`, e.g. for scripts and tests. */
+export function applyTextEdits(text: string, edits: TextEdit[]): string {
+  const lineStarts = lineOffsets(text);
+  const offsetOf = (pos: TextPosition) => lineStarts[pos.line] + pos.character;
+
+  // Apply back to front so earlier offsets stay valid
+  const sorted = [...edits].sort(
+    (a, b) => offsetOf(b.range.start) - offsetOf(a.range.start),
+  );
+  let result = text;
+  for (const edit of sorted) {
+    result =
+      result.slice(0, offsetOf(edit.range.start)) +
+      edit.newText +
+      result.slice(offsetOf(edit.range.end));
+  }
+  return result;
+}
@@ -1,23 +1,137 @@
 // @hexfield-deck/core — barrel export
 
-export { parseBoard, parseFrontmatter } from "./parser/index.js";
+export {
+  parseBoard,
+  parseBoardWithDiagnostics,
+  parseFrontmatter,
+} from "./parser/index.js";
+export type {
+  ParseOptions,
+  ExtractedMetadata,
+  MetadataOptions,
+} from "./parser/index.js";
 export {
   extractProject,
   extractDueDate,
   extractPriority,
   extractTimeEstimate,
+  extractTimeSpent,
+  extractAnchor,
+  extractTags,
+  extractMentions,
+  extractRecurrence,
+  extractDependencies,
+  extractStamps,
+  extractObsidianFields,
   parseAllMetadata,
 } from "./parser/index.js";
-export { allCards } from "./models/types.js";
+export {
+  serializeBoard,
+  formatFrontmatter,
+  formatTaskLine,
+  defaultWeekTemplate,
+  generateWeekPlanner,
+  renderWeekTemplate,
+  weekPlaceholders,
+} from "./serializer/index.js";
+export type { TaskLineFields, TaskLineOverrides } from "./serializer/index.js";
+export {
+  moveCard,
+  moveCardToDay,
+  moveCardToSection,
+  moveCardToFile,
+  rollOverWeek,
+  rolloverCards,
+  toggleSubTask,
+  editCard,
+  resolveRelativeDueDates,
+  setPriority,
+  deleteCard,
+  addCard,
+  findCard,
+  cardIdAfterEdits,
+  getCardLineRange,
+  findDayInsertionPoint,
+  findSectionInsertionPoint,
+  EditError,
+  applyTextEdits,
+} from "./edits/index.js";
+export type {
+  CardTarget,
+  EditOptions,
+  FileMoveEdits,
+  RolloverOptions,
+  TextEdit,
+  TextRange,
+  TextPosition,
+} from "./edits/index.js";
+export {
+  allCards,
+  allSubTasks,
+  isBlocked,
+  statusColumn,
+  subTaskProgress,
+} from "./models/types.js";
+export { parseRecurrence, nextOccurrence } from "./models/recurrence.js";
+export {
+  addWeeks,
+  formatPlannerWeek,
+  parsePlannerWeek,
+  plannerWeek,
+  weekFileGlob,
+  weekFilePath,
+} from "./models/week.js";
+export type { PlannerWeek } from "./models/week.js";
+export {
+  combineBoards,
+  combinedCardId,
+  splitCombinedCardId,
+} from "./models/combined.js";
+export type { SourceBoard } from "./models/combined.js";
+export {
+  relativeDateBase,
+  resolveRelativeDate,
+} from "./parser/relativeDate.js";
+export {
+  daysBetween,
+  formatIsoDate,
+  isoWeekNumber,
+  isoWeekStart,
+  parseIsoDate,
+  weekEnd,
+  weekStart,
+  weeksInYear,
+} from "./utils/dates.js";
+export {
+  DEFAULT_HOURS_PER_DAY,
+  parseDuration,
+  formatDuration,
+  normalizeDuration,
+} from "./models/duration.js";
+export {
+  DEFAULT_PLANNER_SCHEMA,
+  resolvePlannerSchema,
+  sectionKeyFromLabel,
+} from "./models/schema.js";
 export type {
   Frontmatter,
   TaskStatus,
+  BoardColumn,
   Priority,
   BacklogSection,
   LongTermSection,
+  SectionDefinition,
+  PlannerSchema,
   SubTask,
+  Duration,
+  Recurrence,
   Card,
   DaySection,
   BacklogBucket,
   BoardData,
+  DiagnosticSeverity,
+  ParseDiagnostic,
+  SectionRef,
+  LayoutEntry,
+  DocumentLayout,
 } from "./models/types.js";
@@ -0,0 +1,98 @@
+import { describe, it, expect } from "vitest";
+import { parseBoard } from "../parser/parser.js";
+import { allCards } from "./types.js";
+import { combineBoards, combinedCardId, splitCombinedCardId } from "./combined.js";
+
+const week8 = `---
+week: 8
+year: 2026
+---
+
+## Monday, February 16, 2026
+
+- [ ] Deploy database ^deploy-db
+- [ ] Smoke test after:^deploy-db
+
+## Backlog
+
+### Now
+
+- [ ] Fix login
+
+## Parking Lot
+
+- [ ] Revisit caching
+`;
+
+const week9 = `---
+week: 9
+year: 2026
+---
+
+## Monday, February 23, 2026
+
+- [ ] Plan sprint
+
+## Tuesday, February 24, 2026
+
+- [ ] Review PRs
+
+## Parking Lot
+
+- [ ] Try the new linter
+`;
+
+describe("combinedCardId", () => {
+  it("splits back into the file and the card's own ID", () => {
+    const id = combinedCardId("2026/week-08/plan.md", "^deploy-db");
+    expect(splitCombinedCardId(id)).toEqual({
+      source: "2026/week-08/plan.md",
+      cardId: "^deploy-db",
+    });
+    expect(splitCombinedCardId("^deploy-db")).toBeUndefined();
+  });
+});
+
+describe("combineBoards", () => {
+  const board = combineBoards([
+    { source: "week-08.md", board: parseBoard(week8) },
+    { source: "week-09.md", board: parseBoard(week9) },
+  ]);
+
+  it("merges days by weekday and sections by key", () => {
+    expect(board.days.map((d) => d.dayName)).toEqual(["Monday", "Tuesday"]);
+    expect(board.days[0].cards.map((c) => c.title)).toEqual([
+      "Deploy database",
+      "Smoke test",
+      "Plan sprint",
+    ]);
+    expect(board.backlog.map((b) => b.key)).toEqual(["now"]);
+    expect(board.longTerm).toHaveLength(1);
+    expect(board.longTerm[0].cards.map((c) => c.title)).toEqual([
+      "Revisit caching",
+      "Try the new linter",
+    ]);
+    expect(board.frontmatter.week).toBe(0);
+  });
+
+  it("records each card's file and keeps IDs unique", () => {
+    const cards = allCards(board);
+    expect(cards.map((c) => c.source)).toEqual([
+      "week-08.md",
+      "week-08.md",
+      "week-09.md",
+      "week-09.md",
+      "week-08.md",
+      "week-08.md",
+      "week-09.md",
+    ]);
+    expect(new Set(cards.map((c) => c.id)).size).toBe(cards.length);
+    expect(cards[0].id).toBe("week-08.md::^deploy-db");
+  });
+
+  it("keeps dependencies pointing at the combined IDs", () => {
+    const [deploy, smoke] = board.days[0].cards;
+    expect(smoke.blockedBy).toEqual([deploy.id]);
+    expect(deploy.blocks).toEqual([smoke.id]);
+  });
+});
@@ -0,0 +1,121 @@
+import type {
+  BacklogBucket,
+  BoardData,
+  Card,
+  DaySection,
+  SectionDefinition,
+} from "./types.js";
+import { DAY_NAMES } from "../parser/dayHeading.js";
+
+/** A parsed planner file and the name (e.g. its path) it goes by on a combined board. */
+export interface SourceBoard {
+  source: string;
+  board: BoardData;
+}
+
+const SEPARATOR = "::";
+
+/** The ID a card from `source` has on a combined board. */
+export function combinedCardId(source: string, cardId: string): string {
+  return `${source}${SEPARATOR}${cardId}`;
+}
+
+/**
+ * Split a combined-board card ID into the card's file and its ID there.
+ * Undefined for an ID that doesn't come from a combined board.
+ */
+export function splitCombinedCardId(
+  id: string,
+): { source: string; cardId: string } | undefined {
+  const index = id.lastIndexOf(SEPARATOR);
+  if (index === -1) return undefined;
+  return {
+    source: id.slice(0, index),
+    cardId: id.slice(index + SEPARATOR.length),
+  };
+}
+
+/** Sections with the same key merged into one, in order of first appearance. */
+function mergeSections(sections: BacklogBucket[]): BacklogBucket[] {
+  const merged = new Map<string, BacklogBucket>();
+  for (const section of sections) {
+    const existing = merged.get(section.key);
+    if (existing) existing.cards.push(...section.cards);
+    else merged.set(section.key, { ...section, cards: [...section.cards], lineNumber: 0 });
+  }
+  return [...merged.values()];
+}
+
+function uniqueDefinitions(definitions: SectionDefinition[]): SectionDefinition[] {
+  const byKey = new Map<string, SectionDefinition>();
+  for (const definition of definitions) {
+    if (!byKey.has(definition.key)) byKey.set(definition.key, definition);
+  }
+  return [...byKey.values()];
+}
+
+/** `card` as it appears on a combined board, under an ID unique across files. */
+function fromSource(source: string, card: Card): Card {
+  return {
+    ...card,
+    id: combinedCardId(source, card.id),
+    source,
+    ...(card.blockedBy
+      ? { blockedBy: card.blockedBy.map((id) => combinedCardId(source, id)) }
+      : {}),
+    ...(card.blocks
+      ? { blocks: card.blocks.map((id) => combinedCardId(source, id)) }
+      : {}),
+  };
+}
+
+/**
+ * One board from several planner files, such as a quarter's worth of weeks.
+ * Day sections are merged by day of the week, and backlog buckets and
+ * long-term sections by key, with cards in the order of `sources`. Each card
+ * records its `source` and gets an ID unique across the files (see
+ * `combinedCardId`). The result has no week and no layout, so it is for
+ * display only: edits go to each card's own file.
+ */
+export function combineBoards(sources: SourceBoard[]): BoardData {
+  const boards = sources.map(({ source, board }) => {
+    const cards = (section: { cards: Card[] }) =>
+      section.cards.map((card) => fromSource(source, card));
+    return {
+      ...board,
+      days: board.days.map((day) => ({ ...day, cards: cards(day) })),
+      backlog: board.backlog.map((bucket) => ({ ...bucket, cards: cards(bucket) })),
+      longTerm: board.longTerm.map((section) => ({ ...section, cards: cards(section) })),
+    };
+  });
+
+  const days: DaySection[] = [];
+  for (const dayName of DAY_NAMES) {
+    const sections = boards
+      .flatMap((board) => board.days)
+      .filter((day) => day.dayName === dayName);
+    if (sections.length === 0) continue;
+    days.push({
+      heading: dayName,
+      dayName,
+      cards: sections.flatMap((day) => day.cards),
+      lineNumber: 0,
+    });
+  }
+
+  return {
+    frontmatter: { week: 0, year: 0, tags: [], extra: {} },
+    days,
+    backlog: mergeSections(boards.flatMap((board) => board.backlog)),
+    longTerm: mergeSections(boards.flatMap((board) => board.longTerm)),
+    schema: {
+      backlogBuckets: uniqueDefinitions(
+        boards.flatMap((board) => board.schema.backlogBuckets),
+      ),
+      longTermSections: uniqueDefinitions(
+        boards.flatMap((board) => board.schema.longTermSections),
+      ),
+    },
+    layout: { eol: "\n", frontmatterLines: 0, entries: [] },
+  };
+}
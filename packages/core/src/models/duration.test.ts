@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { formatDuration, normalizeDuration, parseDuration } from "./duration.js";
+
+describe("parseDuration", () => {
+  it("reads compound, fractional, day and min forms", () => {
+    expect(parseDuration("1h30m")).toEqual({ text: "1h30m", minutes: 90 });
+    expect(parseDuration("1.5h")).toEqual({ text: "1.5h", minutes: 90 });
+    expect(parseDuration("90min")).toEqual({ text: "90min", minutes: 90 });
+    expect(parseDuration("2d")?.minutes).toBe(960);
+  });
+
+  it("counts days in the configured hours", () => {
+    expect(parseDuration("2d", 6)?.minutes).toBe(720);
+  });
+
+  it("rejects text that is not a duration", () => {
+    expect(parseDuration("soon")).toBeUndefined();
+    expect(parseDuration("2 h")).toBeUndefined();
+    expect(parseDuration("")).toBeUndefined();
+  });
+});
+
+describe("formatDuration", () => {
+  it("writes hours and minutes", () => {
+    expect(formatDuration(90)).toBe("1h30m");
+    expect(formatDuration(120)).toBe("2h");
+    expect(formatDuration(45)).toBe("45m");
+    expect(formatDuration(0)).toBe("0m");
+  });
+
+  it("leads with whole days when given a day length", () => {
+    expect(formatDuration(720, 8)).toBe("1d4h");
+  });
+});
+
+describe("normalizeDuration", () => {
+  it("keeps days only for durations written in days", () => {
+    expect(normalizeDuration(parseDuration("1.5h")!).text).toBe("1h30m");
+    expect(normalizeDuration(parseDuration("10h")!).text).toBe("10h");
+    expect(normalizeDuration(parseDuration("1.5d")!).text).toBe("1d4h");
+  });
+});
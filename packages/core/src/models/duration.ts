@@ -0,0 +1,57 @@
+import type { Duration } from "./types.js";
+
+/** How long a `d` in a duration lasts when nothing else is configured. */
+export const DEFAULT_HOURS_PER_DAY = 8;
+
+/** One or more amounts with units: `1h30m`, `1.5h`, `2d`, `90min`. */
+export const DURATION_PATTERN = "(?:\\d+(?:\\.\\d+)?(?:min|[dhm]))+";
+
+const DURATION_RE = new RegExp(`^${DURATION_PATTERN}$`);
+
+/**
+ * Read a duration such as `1h30m`, `1.5h`, `2d` or `90min`; a day is
+ * `hoursPerDay` hours long. Returns undefined for text that is not one.
+ */
+export function parseDuration(
+  text: string,
+  hoursPerDay = DEFAULT_HOURS_PER_DAY,
+): Duration | undefined {
+  if (!DURATION_RE.test(text)) return undefined;
+  let minutes = 0;
+  for (const [, amount, unit] of text.matchAll(/(\d+(?:\.\d+)?)(min|[dhm])/g)) {
+    const perUnit = unit === "d" ? hoursPerDay * 60 : unit === "h" ? 60 : 1;
+    minutes += Number(amount) * perUnit;
+  }
+  return { text, minutes: Math.round(minutes) };
+}
+
+/**
+ * Write minutes in the board's normal form: `1h30m`, `2h`, `45m`. With
+ * `hoursPerDay`, whole days lead: `1d4h`.
+ */
+export function formatDuration(minutes: number, hoursPerDay?: number): string {
+  let rest = Math.round(minutes);
+  let text = "";
+  if (hoursPerDay && rest >= hoursPerDay * 60) {
+    text += `${Math.floor(rest / (hoursPerDay * 60))}d`;
+    rest %= hoursPerDay * 60;
+  }
+  if (rest >= 60) text += `${Math.floor(rest / 60)}h`;
+  if (rest % 60 > 0 || text === "") text += `${rest % 60}m`;
+  return text;
+}
+
+/**
+ * A duration rewritten in normal form (`1.5h` → `1h30m`, `90min` → `1h30m`).
+ * Durations written in days keep their days: `1.5d` → `1d4h`.
+ */
+export function normalizeDuration(
+  duration: Duration,
+  hoursPerDay = DEFAULT_HOURS_PER_DAY,
+): Duration {
+  const inDays = duration.text.includes("d");
+  return {
+    text: formatDuration(duration.minutes, inDays ? hoursPerDay : undefined),
+    minutes: duration.minutes,
+  };
+}
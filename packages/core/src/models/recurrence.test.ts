@@ -0,0 +1,40 @@
+import { describe, it, expect } from "vitest";
+import { nextOccurrence, parseRecurrence } from "./recurrence.js";
+
+describe("parseRecurrence", () => {
+  it("reads units, intervals and weekday lists", () => {
+    expect(parseRecurrence("weekly")).toEqual({ text: "weekly", interval: 1, unit: "week" });
+    expect(parseRecurrence("2w")).toEqual({ text: "2w", interval: 2, unit: "week" });
+    expect(parseRecurrence("mon,thu")).toEqual({
+      text: "mon,thu",
+      interval: 1,
+      unit: "week",
+      weekdays: [0, 3],
+    });
+  });
+
+  it("reads the Obsidian Tasks wording", () => {
+    expect(parseRecurrence("every 2 weeks")).toMatchObject({ interval: 2, unit: "week" });
+    expect(parseRecurrence("every Monday and Thursday")?.weekdays).toEqual([0, 3]);
+    expect(parseRecurrence("every month when done")).toMatchObject({ interval: 1, unit: "month" });
+  });
+
+  it("rejects rules it cannot read", () => {
+    expect(parseRecurrence("sometimes")).toBeUndefined();
+    expect(parseRecurrence("0d")).toBeUndefined();
+  });
+});
+
+describe("nextOccurrence", () => {
+  it("advances by the interval", () => {
+    expect(nextOccurrence(parseRecurrence("3d")!, "2026-02-09")).toBe("2026-02-12");
+    expect(nextOccurrence(parseRecurrence("2 weeks")!, "2026-02-09")).toBe("2026-02-23");
+    expect(nextOccurrence(parseRecurrence("monthly")!, "2026-01-31")).toBe("2026-02-28");
+  });
+
+  it("picks the next listed weekday", () => {
+    const rule = parseRecurrence("mon,thu")!;
+    expect(nextOccurrence(rule, "2026-02-09")).toBe("2026-02-12");
+    expect(nextOccurrence(rule, "2026-02-12")).toBe("2026-02-16");
+  });
+});
@@ -0,0 +1,85 @@
+import type { Recurrence } from "./types.js";
+import { addDays, addMonths, isoWeekday } from "../utils/dates.js";
+
+const WEEKDAY_NAMES = [
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+  "sunday",
+];
+
+const UNITS = new Map<string, Recurrence["unit"]>([
+  ["d", "day"],
+  ["day", "day"],
+  ["days", "day"],
+  ["daily", "day"],
+  ["w", "week"],
+  ["week", "week"],
+  ["weeks", "week"],
+  ["weekly", "week"],
+  ["m", "month"],
+  ["month", "month"],
+  ["months", "month"],
+  ["monthly", "month"],
+]);
+
+/** 0 = Monday … 6 = Sunday for a long or three-letter English day name. */
+function weekdayIndex(name: string): number | undefined {
+  const index = WEEKDAY_NAMES.findIndex(
+    (day) => day === name || day.slice(0, 3) === name,
+  );
+  return index === -1 ? undefined : index;
+}
+
+/**
+ * Read a recurrence rule: `weekly`, `2w`, `mon,thu`, `weekdays`, or the
+ * Obsidian Tasks forms `every 2 weeks` and `every monday, thursday`.
+ * Returns undefined for rules it does not understand.
+ */
+export function parseRecurrence(rule: string): Recurrence | undefined {
+  const text = rule.trim().replace(/^every\s+/i, "");
+  const normalized = text
+    .toLowerCase()
+    .replace(/\s+when done$/, "")
+    .trim();
+
+  const interval = normalized.match(/^(\d+)\s*([a-z]+)$/);
+  if (interval) {
+    const unit = UNITS.get(interval[2]);
+    const count = Number(interval[1]);
+    return unit && count > 0 ? { text, interval: count, unit } : undefined;
+  }
+  const unit = normalized.length > 1 ? UNITS.get(normalized) : undefined;
+  if (unit) return { text, interval: 1, unit };
+  if (normalized === "weekday" || normalized === "weekdays") {
+    return { text, interval: 1, unit: "week", weekdays: [0, 1, 2, 3, 4] };
+  }
+
+  const names = normalized.split(/\s*(?:,|\band\b|\s)\s*/).filter(Boolean);
+  const weekdays = names.map(weekdayIndex);
+  if (names.length === 0 || weekdays.some((d) => d === undefined)) {
+    return undefined;
+  }
+  return {
+    text,
+    interval: 1,
+    unit: "week",
+    weekdays: [...new Set(weekdays as number[])].sort((a, b) => a - b),
+  };
+}
+
+/** The first date after `from` (ISO) on which `recurrence` falls. */
+export function nextOccurrence(recurrence: Recurrence, from: string): string {
+  const { interval, unit, weekdays } = recurrence;
+  if (unit === "day") return addDays(from, interval);
+  if (unit === "month") return addMonths(from, interval);
+  if (weekdays && weekdays.length > 0) {
+    let next = addDays(from, 1);
+    while (!weekdays.includes(isoWeekday(next))) next = addDays(next, 1);
+    return next;
+  }
+  return addDays(from, 7 * interval);
+}
@@ -0,0 +1,33 @@
+import { describe, it, expect } from "vitest";
+import {
+  DEFAULT_PLANNER_SCHEMA,
+  resolvePlannerSchema,
+  sectionKeyFromLabel,
+} from "./schema.js";
+
+describe("sectionKeyFromLabel", () => {
+  it("matches the built-in section keys", () => {
+    expect(sectionKeyFromLabel("Next 2 Weeks")).toBe("next-2-weeks");
+    expect(sectionKeyFromLabel("  Parking Lot ")).toBe("parking-lot");
+  });
+});
+
+describe("resolvePlannerSchema", () => {
+  it("accepts labels or label/key objects", () => {
+    const schema = resolvePlannerSchema({
+      backlog: ["Today", { label: "This Sprint", key: "sprint" }],
+    });
+    expect(schema.backlogBuckets).toEqual([
+      { key: "today", label: "Today" },
+      { key: "sprint", label: "This Sprint" },
+    ]);
+    expect(schema.longTermSections).toBe(DEFAULT_PLANNER_SCHEMA.longTermSections);
+  });
+
+  it("falls back to the base schema for missing or unreadable lists", () => {
+    expect(resolvePlannerSchema(undefined)).toBe(DEFAULT_PLANNER_SCHEMA);
+    expect(resolvePlannerSchema({ backlog: "Today", longTerm: [] })).toEqual(
+      DEFAULT_PLANNER_SCHEMA,
+    );
+  });
+});
@@ -0,0 +1,66 @@
+import type { PlannerSchema, SectionDefinition } from "./types.js";
+
+/** The layout Hexfield Deck has always used. */
+export const DEFAULT_PLANNER_SCHEMA: PlannerSchema = {
+  backlogBuckets: [
+    { key: "now", label: "Now" },
+    { key: "next-2-weeks", label: "Next 2 Weeks" },
+    { key: "this-month", label: "This Month" },
+  ],
+  longTermSections: [
+    { key: "this-quarter", label: "This Quarter" },
+    { key: "this-year", label: "This Year" },
+    { key: "parking-lot", label: "Parking Lot" },
+  ],
+};
+
+/** Derive a section key from its heading: "Next 2 Weeks" → "next-2-weeks". */
+export function sectionKeyFromLabel(label: string): string {
+  return label
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+/**
+ * Read a list of sections written as labels (`[Today, Icebox]`) or as
+ * `{ label, key }` objects. Returns undefined for anything else.
+ */
+function parseSectionList(value: unknown): SectionDefinition[] | undefined {
+  if (!Array.isArray(value)) return undefined;
+  const sections: SectionDefinition[] = [];
+  for (const item of value) {
+    if (typeof item === "string" && item.trim() !== "") {
+      sections.push({ key: sectionKeyFromLabel(item), label: item.trim() });
+    } else if (
+      item !== null &&
+      typeof item === "object" &&
+      typeof (item as { label?: unknown }).label === "string"
+    ) {
+      const { label, key } = item as { label: string; key?: unknown };
+      sections.push({
+        key: typeof key === "string" && key !== "" ? key : sectionKeyFromLabel(label),
+        label: label.trim(),
+      });
+    }
+  }
+  return sections.length > 0 ? sections : undefined;
+}
+
+/**
+ * Apply a `{ backlog, longTerm }` override (from frontmatter `sections:` or
+ * the workspace settings) on top of `base`. Missing or unreadable lists keep
+ * the base sections.
+ */
+export function resolvePlannerSchema(
+  overrides: unknown,
+  base: PlannerSchema = DEFAULT_PLANNER_SCHEMA,
+): PlannerSchema {
+  if (overrides === null || typeof overrides !== "object") return base;
+  const { backlog, longTerm } = overrides as Record<string, unknown>;
+  return {
+    backlogBuckets: parseSectionList(backlog) ?? base.backlogBuckets,
+    longTermSections: parseSectionList(longTerm) ?? base.longTermSections,
+  };
+}
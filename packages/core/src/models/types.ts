@@ -6,54 +6,153 @@ export interface Frontmatter {
   quarter?: string;
   startDate?: string;
   endDate?: string;
+  /** Any other keys (owner, sprint, capacity, ...), as parsed from YAML. */
+  extra: Record<string, unknown>;
 }
 
-/** Checkbox states: unchecked, in-progress ([/]), checked. */
-export type TaskStatus = "todo" | "in-progress" | "done";
+/**
+ * A task's checkbox: `[ ]` todo, `[/]` in-progress, `[x]` done, `[-]`
+ * cancelled, `[!]` blocked, `[>]` deferred.
+ */
+export type TaskStatus =
+  | "todo"
+  | "in-progress"
+  | "done"
+  | "cancelled"
+  | "blocked"
+  | "deferred";
+
+/** The statuses that get a board column of their own. */
+export type BoardColumn = "todo" | "in-progress" | "done";
 
 /** Priority markers: !!! = high, !! = medium, ! = low. */
 export type Priority = "high" | "medium" | "low";
 
-/** Backlog sub-section identifiers. */
-export type BacklogSection = "now" | "next-2-weeks" | "this-month";
+/** Backlog sub-section identifiers (`now`, `next-2-weeks`, ... or a custom key). */
+export type BacklogSection = string;
+
+/** Long-term section identifiers (`this-quarter`, `parking-lot`, ... or a custom key). */
+export type LongTermSection = string;
+
+/** A board section: its heading text and the key cards and edits use for it. */
+export interface SectionDefinition {
+  key: string;
+  label: string;
+}
 
-/** Long-term section identifiers. */
-export type LongTermSection = "this-quarter" | "this-year" | "parking-lot";
+/** The section vocabulary a planner file is parsed with. */
+export interface PlannerSchema {
+  /** `###` buckets under `## Backlog`, in order. */
+  backlogBuckets: SectionDefinition[];
+  /** `##` sections for long-term work (This Quarter, Parking Lot, ...). */
+  longTermSections: SectionDefinition[];
+}
 
-/** A sub-task nested under a card. */
+/** A sub-task nested under a card or under another sub-task. */
 export interface SubTask {
+  /** Text after the checkbox, metadata included. */
   text: string;
+  /** `text` without its metadata. */
+  title: string;
+  rawLine: string;
   status: TaskStatus;
   lineNumber: number;
+  tags: string[];
+  project?: string;
+  dueDate?: string;
+  /** The relative expression (`due:tomorrow`, `due:+3d`) `dueDate` was resolved from. */
+  relativeDueDate?: string;
+  priority?: Priority;
+  timeEstimate?: Duration;
+  /** Sub-tasks indented under this one. */
+  children: SubTask[];
+}
+
+/** A parsed length of time: `est:1h30m`, `spent:2d`. */
+export interface Duration {
+  /** The duration as written: "1h30m", "1.5h", "2d", "90min". */
+  text: string;
+  /** Length in minutes; a day counts as the configured hours per day. */
+  minutes: number;
+}
+
+/** A parsed recurrence rule. */
+export interface Recurrence {
+  /** The rule as written, without the `every` keyword: "weekly", "mon,thu", "2 weeks". */
+  text: string;
+  interval: number;
+  unit: "day" | "week" | "month";
+  /** Days a weekly rule falls on, 0 = Monday … 6 = Sunday. */
+  weekdays?: number[];
 }
 
 /** A single task card on the board. */
 export interface Card {
+  /** Stable identity: `^anchor` if the card has one, else a content fingerprint. */
   id: string;
   title: string;
   rawLine: string;
   status: TaskStatus;
   lineNumber: number;
   body: string[];
+  /** Verbatim lines after the title line (sub-tasks, body, inner blank lines). */
+  rawBody: string[];
+  /** Top-level sub-tasks; deeper levels hang off `children`. */
   subTasks: SubTask[];
+  /** Every `#tag` on the title line, in order (the project tag included). */
+  tags: string[];
   project?: string;
+  /** Handles (without `@`) of the people the card is assigned to. */
+  assignees?: string[];
   dueDate?: string;
+  /** The relative expression (`due:tomorrow`, `due:+3d`) `dueDate` was resolved from. */
+  relativeDueDate?: string;
   priority?: Priority;
-  timeEstimate?: string;
+  timeEstimate?: Duration;
+  /** Time logged against the card: `spent:1h30m`. */
+  timeSpent?: Duration;
+  /** Block anchor (`^deploy-db`) that gives the card a stable ID. */
+  anchor?: string;
+  /** Obsidian Tasks `⏳` scheduled date. */
+  scheduledDate?: string;
+  /** Obsidian Tasks `🛫` start date. */
+  startDate?: string;
+  /** Obsidian Tasks `➕` created date. */
+  createdDate?: string;
+  /** When the card was finished: `done:2026-02-10`, or Obsidian Tasks `✅`. */
+  completedDate?: string;
+  /** When work on the card began: `started:2026-02-09`. */
+  startedDate?: string;
+  /** How many weeks the card has been rolled over into the next: `rolled:2`. */
+  rolledOver?: number;
+  /** How the card repeats: `every:weekly`, or Obsidian Tasks `🔁 every week`. */
+  recurrence?: Recurrence;
+  /** "obsidian" when the title line is written with Obsidian Tasks emoji. */
+  dialect?: "obsidian";
+  /** Anchors of the cards this one comes after (`after:^deploy-db`). */
+  dependsOn?: string[];
+  /** IDs of the dependencies that are not done or cancelled yet. */
+  blockedBy?: string[];
+  /** IDs of the cards that come after this one. */
+  blocks?: string[];
   day?: string;
   section?: string;
+  /** The planner file the card comes from, on a board combining several. */
+  source?: string;
 }
 
 /** A day column (## Monday, February 5, 2026). */
 export interface DaySection {
   heading: string;
+  /** Canonical English name ("Monday"), whatever language the heading uses. */
   dayName: string;
+  /** ISO date from the heading, or inferred from frontmatter `startDate`. */
   date?: string;
   cards: Card[];
   lineNumber: number;
 }
 
-/** A bucket within the ## Backlog section. */
+/** A bucket within the ## Backlog section, or a long-term ## section. */
 export interface BacklogBucket {
   label: string;
   key: BacklogSection;
@@ -61,14 +160,97 @@ export interface BacklogBucket {
   lineNumber: number;
 }
 
+/** Identifies the card list a source line belongs to. */
+export type SectionRef =
+  | { kind: "day"; index: number }
+  | { kind: "backlog"; index: number }
+  | { kind: "long-term"; index: number };
+
+/**
+ * One entry of the source document in order: a line kept verbatim, or the
+ * slot of the card that started on `lineNumber`.
+ */
+export type LayoutEntry =
+  | { kind: "text"; text: string; section?: SectionRef }
+  | { kind: "card"; section: SectionRef; lineNumber: number };
+
+/** Everything the parser skips, so the file can be written back losslessly. */
+export interface DocumentLayout {
+  eol: "\n" | "\r\n";
+  /** How many leading entries hold the fenced frontmatter block (0 if none). */
+  frontmatterLines: number;
+  entries: LayoutEntry[];
+}
+
 /** The full parsed board. */
 export interface BoardData {
   frontmatter: Frontmatter;
   days: DaySection[];
   backlog: BacklogBucket[];
-  thisQuarter: Card[];
-  thisYear: Card[];
-  parkingLot: Card[];
+  longTerm: BacklogBucket[];
+  /** The schema the file was parsed with (workspace default or frontmatter). */
+  schema: PlannerSchema;
+  layout: DocumentLayout;
+}
+
+/** How serious a parser diagnostic is. */
+export type DiagnosticSeverity = "error" | "warning" | "info";
+
+/** Something the parser could not place on the board, with its 1-based line. */
+export interface ParseDiagnostic {
+  line: number;
+  severity: DiagnosticSeverity;
+  message: string;
+}
+
+/** Every sub-task in a tree, parents before their children. */
+export function allSubTasks(subTasks: SubTask[]): SubTask[] {
+  return subTasks.flatMap((st) => [st, ...allSubTasks(st.children)]);
+}
+
+/**
+ * Completion of a sub-task tree, counted over its leaves: a sub-task with
+ * children is as done as they are, whatever its own checkbox says. Cancelled
+ * sub-tasks are left out.
+ */
+export function subTaskProgress(subTasks: SubTask[]): {
+  done: number;
+  total: number;
+} {
+  let done = 0;
+  let total = 0;
+  for (const st of subTasks) {
+    if (st.children.length > 0) {
+      const child = subTaskProgress(st.children);
+      done += child.done;
+      total += child.total;
+    } else if (st.status !== "cancelled") {
+      total++;
+      if (st.status === "done") done++;
+    }
+  }
+  return { done, total };
+}
+
+/** Whether a card is marked `[!]` or waits on an unfinished dependency. */
+export function isBlocked(card: Card): boolean {
+  return card.status === "blocked" || (card.blockedBy?.length ?? 0) > 0;
+}
+
+/**
+ * The board column a card shows in: blocked and deferred cards wait with the
+ * to-dos, cancelled ones sit with the done.
+ */
+export function statusColumn(status: TaskStatus): BoardColumn {
+  switch (status) {
+    case "blocked":
+    case "deferred":
+      return "todo";
+    case "cancelled":
+      return "done";
+    default:
+      return status;
+  }
 }
 
 /** Collect every card across all sections. */
@@ -80,8 +262,8 @@ export function allCards(board: BoardData): Card[] {
   for (const bucket of board.backlog) {
     cards.push(...bucket.cards);
   }
-  cards.push(...board.thisQuarter);
-  cards.push(...board.thisYear);
-  cards.push(...board.parkingLot);
+  for (const section of board.longTerm) {
+    cards.push(...section.cards);
+  }
   return cards;
 }
@@ -0,0 +1,58 @@
+import { describe, it, expect } from "vitest";
+import {
+  addWeeks,
+  parsePlannerWeek,
+  plannerWeek,
+  weekFileGlob,
+  weekFilePath,
+} from "./week.js";
+
+describe("addWeeks", () => {
+  it("crosses year boundaries", () => {
+    expect(addWeeks({ year: 2026, week: 7 }, 1)).toEqual({ year: 2026, week: 8 });
+    expect(addWeeks({ year: 2026, week: 53 }, 1)).toEqual({ year: 2027, week: 1 });
+    expect(addWeeks({ year: 2026, week: 1 }, -1)).toEqual({ year: 2025, week: 52 });
+  });
+});
+
+describe("plannerWeek", () => {
+  it("ignores frontmatter without a real week", () => {
+    expect(plannerWeek({ week: 7, year: 2026, tags: [], extra: {} })).toEqual({ year: 2026, week: 7 });
+    expect(plannerWeek({ week: 0, year: 0, tags: [], extra: {} })).toBeUndefined();
+    expect(plannerWeek({ week: 53, year: 2025, tags: [], extra: {} })).toBeUndefined();
+  });
+});
+
+describe("parsePlannerWeek", () => {
+  const current = { year: 2026, week: 7 };
+
+  it("reads ISO weeks, bare numbers and offsets", () => {
+    expect(parsePlannerWeek("2027-W03", current)).toEqual({ year: 2027, week: 3 });
+    expect(parsePlannerWeek("w9", current)).toEqual({ year: 2026, week: 9 });
+    expect(parsePlannerWeek("12", current)).toEqual({ year: 2026, week: 12 });
+    expect(parsePlannerWeek("+2", current)).toEqual({ year: 2026, week: 9 });
+  });
+
+  it("rejects weeks that don't exist", () => {
+    expect(parsePlannerWeek("0", current)).toBeUndefined();
+    expect(parsePlannerWeek("2025-W53", current)).toBeUndefined();
+    expect(parsePlannerWeek("next", current)).toBeUndefined();
+  });
+});
+
+describe("weekFilePath", () => {
+  it("fills in the placeholders", () => {
+    expect(
+      weekFilePath("{year}/week-{WW}/{year}-{WW}-weekly-plan.md", { year: 2026, week: 8 }),
+    ).toBe("2026/week-08/2026-08-weekly-plan.md");
+    expect(weekFilePath("W{week}.md", { year: 2026, week: 8 })).toBe("W8.md");
+  });
+});
+
+describe("weekFileGlob", () => {
+  it("matches any week", () => {
+    expect(weekFileGlob("{year}/week-{WW}/{year}-{WW}-weekly-plan.md")).toBe(
+      "*/week-*/*-*-weekly-plan.md",
+    );
+  });
+});
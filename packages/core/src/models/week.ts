@@ -0,0 +1,72 @@
+import type { Frontmatter } from "./types.js";
+import {
+  addDays,
+  isoWeekNumber,
+  isoWeekStart,
+  weeksInYear,
+} from "../utils/dates.js";
+
+/** An ISO week: the week a planner file covers. */
+export interface PlannerWeek {
+  year: number;
+  week: number;
+}
+
+/** The week a planner's frontmatter names, or undefined when it names none. */
+export function plannerWeek(frontmatter: Frontmatter): PlannerWeek | undefined {
+  const { year, week } = frontmatter;
+  if (year <= 0 || week < 1 || week > weeksInYear(year)) return undefined;
+  return { year, week };
+}
+
+/** The week `count` weeks after (or, when negative, before) `from`. */
+export function addWeeks(from: PlannerWeek, count: number): PlannerWeek {
+  return isoWeekNumber(addDays(isoWeekStart(from.year, from.week), 7 * count));
+}
+
+/** "2026-W08", the ISO 8601 way of writing a week. */
+export function formatPlannerWeek({ year, week }: PlannerWeek): string {
+  return `${year}-W${String(week).padStart(2, "0")}`;
+}
+
+/**
+ * Read a week as typed into a prompt: `2026-W08`, `2026 8`, `W8` or `8`
+ * (in `current`'s year), or `+2`/`-1` (weeks from `current`). Returns
+ * undefined for anything else, including weeks the year doesn't have.
+ */
+export function parsePlannerWeek(
+  input: string,
+  current: PlannerWeek,
+): PlannerWeek | undefined {
+  const text = input.trim();
+  const offset = text.match(/^([+-]\d+)$/);
+  if (offset) return addWeeks(current, Number(offset[1]));
+
+  const match = text.match(/^(?:(\d{4})[\s-]*)?W?(\d{1,2})$/i);
+  if (!match) return undefined;
+  const year = match[1] ? Number(match[1]) : current.year;
+  const week = Number(match[2]);
+  if (week < 1 || week > weeksInYear(year)) return undefined;
+  return { year, week };
+}
+
+/**
+ * The path of a week's planner file from a pattern such as
+ * `{year}/week-{WW}/{year}-{WW}-weekly-plan.md`: `{year}` is the ISO year,
+ * `{week}` the week number and `{WW}` the week number padded to two digits.
+ */
+export function weekFilePath(pattern: string, { year, week }: PlannerWeek): string {
+  return pattern
+    .replace(/\{year\}/g, String(year))
+    .replace(/\{week\}/g, String(week))
+    .replace(/\{WW\}/g, String(week).padStart(2, "0"));
+}
+
+/**
+ * A glob matching every week's file of a `weekFilePath` pattern, with each
+ * placeholder standing for any text: `{year}/week-{WW}/plan.md` gives
+ * `*\/week-*\/plan.md`.
+ */
+export function weekFileGlob(pattern: string): string {
+  return pattern.replace(/\{(?:year|week|WW)\}/g, "*");
+}
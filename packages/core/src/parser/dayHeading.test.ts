@@ -0,0 +1,81 @@
+import { describe, it, expect } from "vitest";
+import { parseDayHeading } from "./dayHeading.js";
+
+describe("parseDayHeading", () => {
+  it("reads the English long form", () => {
+    expect(parseDayHeading("Monday, February 9, 2026", {})).toEqual({
+      dayName: "Monday",
+      date: "2026-02-09",
+    });
+  });
+
+  it("reads localized names", () => {
+    expect(parseDayHeading("Montag, 9. Februar 2026", {}, "de")).toEqual({
+      dayName: "Monday",
+      date: "2026-02-09",
+    });
+    expect(parseDayHeading("mardi 10 févr. 2026", {}, "fr")).toEqual({
+      dayName: "Tuesday",
+      date: "2026-02-10",
+    });
+  });
+
+  it("reads ISO dates, with or without a weekday", () => {
+    expect(parseDayHeading("2026-02-09 Monday", {})).toEqual({
+      dayName: "Monday",
+      date: "2026-02-09",
+    });
+    expect(parseDayHeading("2026-02-10", {})).toEqual({
+      dayName: "Tuesday",
+      date: "2026-02-10",
+    });
+  });
+
+  it("takes a missing year from the week, across New Year", () => {
+    const context = { startDate: "2026-12-28" };
+    expect(parseDayHeading("Fri 01/01", context)?.date).toBe("2027-01-01");
+    expect(parseDayHeading("Mon 28.12", context, "de")?.date).toBe("2026-12-28");
+  });
+
+  it("orders numeric dates by locale, or by the weekday when only one fits", () => {
+    const context = { startDate: "2026-02-09" };
+    expect(parseDayHeading("Mon 09/02", context, "de")?.date).toBe("2026-02-09");
+    expect(parseDayHeading("Mon 09/02", context)?.date).toBe("2026-02-09");
+    expect(parseDayHeading("Wed 02/11", context)?.date).toBe("2026-02-11");
+  });
+
+  it("infers the date from startDate when the heading has none", () => {
+    expect(parseDayHeading("Thursday", { startDate: "2026-02-09" })).toEqual({
+      dayName: "Thursday",
+      date: "2026-02-12",
+    });
+    expect(parseDayHeading("Thursday", {})?.date).toBeUndefined();
+  });
+
+  it("reports impossible dates as null", () => {
+    expect(parseDayHeading("Monday, February 30, 2026", {})?.date).toBeNull();
+  });
+
+  it("ignores headings that are not days", () => {
+    expect(parseDayHeading("Backlog", {})).toBeNull();
+    expect(parseDayHeading("2026 Goals", {})).toBeNull();
+    expect(parseDayHeading("Montag", {})).toBeNull();
+  });
+
+  it("ignores notes headings that only start like a day or a date", () => {
+    expect(parseDayHeading("Sun Tzu quotes", {})).toBeNull();
+    expect(parseDayHeading("Wed dings", { startDate: "2026-02-09" })).toBeNull();
+    expect(parseDayHeading("1 May retro", { year: 2026 })).toBeNull();
+    expect(parseDayHeading("2026-02-09 planning notes", {})).toBeNull();
+    expect(parseDayHeading("3 things to fix", {})).toBeNull();
+  });
+
+  it("reads short names followed by punctuation or a date", () => {
+    expect(parseDayHeading("Sun, Feb 15", { year: 2026 })).toEqual({
+      dayName: "Sunday",
+      date: "2026-02-15",
+    });
+    expect(parseDayHeading("Tue.", { startDate: "2026-02-09" })?.date).toBe("2026-02-10");
+    expect(parseDayHeading("1 May", { year: 2026 })?.dayName).toBe("Friday");
+  });
+});
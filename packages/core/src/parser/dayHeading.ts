@@ -0,0 +1,269 @@
+import {
+  addDays,
+  daysBetween,
+  isoDateFromParts,
+  isoWeekday,
+  isValidIsoDate,
+} from "../utils/dates.js";
+
+/** Canonical day names; `DaySection.dayName` is always one of these. */
+export const DAY_NAMES = [
+  "Monday",
+  "Tuesday",
+  "Wednesday",
+  "Thursday",
+  "Friday",
+  "Saturday",
+  "Sunday",
+] as const;
+
+const MONTH_NAMES = [
+  "January", "February", "March", "April", "May", "June",
+  "July", "August", "September", "October", "November", "December",
+];
+
+/** Weekday and month names a heading may use, normalized by `normalizeName`. */
+interface CalendarNames {
+  /** Name → 0 = Monday … 6 = Sunday. */
+  weekdays: Map<string, number>;
+  /** The weekday names that are not abbreviations. */
+  longWeekdays: Set<string>;
+  /** Name → month index. */
+  months: Map<string, number>;
+  /** Whether `09/02` means 9 February. */
+  dayFirst: boolean;
+}
+
+/** What the parser knows about the week, for headings that leave things out. */
+export interface DayHeadingContext {
+  /** Frontmatter `startDate`: supplies missing years and missing dates. */
+  startDate?: string;
+  /** Frontmatter `year`: supplies missing years when there is no startDate. */
+  year?: number;
+}
+
+export interface ParsedDayHeading {
+  dayName: (typeof DAY_NAMES)[number];
+  /** ISO date; null when the heading names a date that does not exist. */
+  date: string | null | undefined;
+}
+
+function normalizeName(name: string): string {
+  return name.toLowerCase().replace(/\.$/, "");
+}
+
+const namesCache = new Map<string, CalendarNames>();
+
+/** English names (long and three-letter), plus the names `locale` uses. */
+function calendarNames(locale: string | undefined): CalendarNames {
+  const cacheKey = locale ?? "";
+  const cached = namesCache.get(cacheKey);
+  if (cached) return cached;
+
+  const weekdays = new Map<string, number>();
+  const longWeekdays = new Set<string>();
+  const months = new Map<string, number>();
+  DAY_NAMES.forEach((name, i) => {
+    weekdays.set(normalizeName(name), i);
+    longWeekdays.add(normalizeName(name));
+    weekdays.set(normalizeName(name.slice(0, 3)), i);
+  });
+  MONTH_NAMES.forEach((name, i) => {
+    months.set(normalizeName(name), i);
+    months.set(normalizeName(name.slice(0, 3)), i);
+  });
+
+  let dayFirst = false;
+  if (locale) {
+    try {
+      for (const style of ["long", "short"] as const) {
+        const weekday = new Intl.DateTimeFormat(locale, { weekday: style, timeZone: "UTC" });
+        const month = new Intl.DateTimeFormat(locale, { month: style, timeZone: "UTC" });
+        // Some languages inflect month names inside a date ("9 февраля")
+        const monthInDate = new Intl.DateTimeFormat(locale, {
+          day: "numeric",
+          month: style,
+          timeZone: "UTC",
+        });
+        for (let i = 0; i < 7; i++) {
+          // 2024-01-01 was a Monday
+          const name = normalizeName(weekday.format(Date.UTC(2024, 0, 1 + i)));
+          weekdays.set(name, i);
+          if (style === "long") longWeekdays.add(name);
+        }
+        for (let i = 0; i < 12; i++) {
+          const date = Date.UTC(2024, i, 15);
+          months.set(normalizeName(month.format(date)), i);
+          const part = monthInDate.formatToParts(date).find((p) => p.type === "month");
+          if (part) months.set(normalizeName(part.value), i);
+        }
+      }
+      const numeric = new Intl.DateTimeFormat(locale, {
+        day: "numeric",
+        month: "numeric",
+        timeZone: "UTC",
+      }).format(Date.UTC(2024, 10, 22));
+      dayFirst = numeric.indexOf("22") < numeric.indexOf("11");
+    } catch {
+      // Unknown locale: English names only
+    }
+  }
+
+  const names = { weekdays, longWeekdays, months, dayFirst };
+  namesCache.set(cacheKey, names);
+  return names;
+}
+
+/** Days between two ISO dates, for picking the closest candidate. */
+function distance(a: string, b: string): number {
+  return Math.abs(daysBetween(a, b));
+}
+
+/** A date from month and day, taking a missing year from the context. */
+function withYear(
+  monthIndex: number,
+  day: number,
+  year: number | undefined,
+  context: DayHeadingContext,
+): string | null | undefined {
+  if (year !== undefined) return isoDateFromParts(year, monthIndex, day) ?? null;
+
+  const { startDate } = context;
+  if (startDate && isValidIsoDate(startDate)) {
+    // The year that puts the date nearest the week (weeks can span New Year)
+    const startYear = Number(startDate.slice(0, 4));
+    const candidates = [startYear - 1, startYear, startYear + 1]
+      .map((y) => isoDateFromParts(y, monthIndex, day))
+      .filter((d): d is string => d !== undefined)
+      .sort((a, b) => distance(a, startDate) - distance(b, startDate));
+    return candidates[0] ?? null;
+  }
+  if (context.year) return isoDateFromParts(context.year, monthIndex, day) ?? null;
+  return undefined;
+}
+
+function fullYear(value: string | undefined): number | undefined {
+  if (value === undefined) return undefined;
+  return value.length === 2 ? 2000 + Number(value) : Number(value);
+}
+
+/** A date found in a heading, and the text it was written as. */
+interface HeadingDate {
+  date: string | null | undefined;
+  text: string;
+}
+
+/** The date written in a heading, in any of the supported forms. */
+function readDate(
+  heading: string,
+  names: CalendarNames,
+  context: DayHeadingContext,
+  weekday: number | undefined,
+): HeadingDate | undefined {
+  // 2026-02-09
+  const iso = heading.match(/(?<!\d)(\d{4})-(\d{1,2})-(\d{1,2})(?!\d)/);
+  if (iso) {
+    const date = isoDateFromParts(Number(iso[1]), Number(iso[2]) - 1, Number(iso[3]));
+    return { date: date ?? null, text: iso[0] };
+  }
+
+  // February 9, 2026 / Feb 9th
+  for (const m of heading.matchAll(
+    /(\p{L}+)\.?\s+(\d{1,2})(?!\d)(?:st|nd|rd|th)?(?:,?\s+(\d{4}))?/gu,
+  )) {
+    const monthIndex = names.months.get(normalizeName(m[1]));
+    if (monthIndex !== undefined) {
+      return { date: withYear(monthIndex, Number(m[2]), fullYear(m[3]), context), text: m[0] };
+    }
+  }
+
+  // 9. Februar 2026 / 9 Feb
+  for (const m of heading.matchAll(
+    /(?<!\d)(\d{1,2})\.?\s+(\p{L}+)\.?(?:,?\s+(\d{4}))?/gu,
+  )) {
+    const monthIndex = names.months.get(normalizeName(m[2]));
+    if (monthIndex !== undefined) {
+      return { date: withYear(monthIndex, Number(m[1]), fullYear(m[3]), context), text: m[0] };
+    }
+  }
+
+  // 09/02, 09.02.2026 — in the locale's order, unless only the other order
+  // matches the weekday in the heading
+  const numeric = heading.match(
+    /(?<!\d)(\d{1,2})[./](\d{1,2})(?:[./](\d{4}|\d{2}))?(?!\d)/,
+  );
+  if (numeric) {
+    const a = Number(numeric[1]);
+    const b = Number(numeric[2]);
+    const year = fullYear(numeric[3]);
+    const dayFirst = withYear(b - 1, a, year, context);
+    const monthFirst = withYear(a - 1, b, year, context);
+    const [preferred, other] = names.dayFirst
+      ? [dayFirst, monthFirst]
+      : [monthFirst, dayFirst];
+    if (
+      weekday !== undefined &&
+      other &&
+      isoWeekday(other) === weekday &&
+      !(preferred && isoWeekday(preferred) === weekday)
+    ) {
+      return { date: other, text: numeric[0] };
+    }
+    return { date: preferred ?? other, text: numeric[0] };
+  }
+
+  return undefined;
+}
+
+/**
+ * Read a `##` day heading: "Monday, February 9, 2026", "Montag, 9. Februar
+ * 2026" (with `locale` "de"), "2026-02-09 Monday", "Mon 09/02", or just
+ * "Monday". Returns null when the heading is not a day heading. A heading
+ * without a date gets one from `context.startDate` when that is known.
+ */
+export function parseDayHeading(
+  heading: string,
+  context: DayHeadingContext,
+  locale?: string,
+): ParsedDayHeading | null {
+  const names = calendarNames(locale);
+
+  // A day heading starts with a weekday, or with a date the weekday may follow
+  const startsWithDate = /^\d/.test(heading);
+  const firstWord = heading.match(startsWithDate ? /\p{L}+/u : /^\p{L}+/u)?.[0];
+  let weekday =
+    firstWord !== undefined
+      ? names.weekdays.get(normalizeName(firstWord))
+      : undefined;
+  if (weekday === undefined && !startsWithDate) return null;
+
+  const found = readDate(heading, names, context, weekday);
+  let date = found?.date;
+  if (startsWithDate) {
+    // "1 May retro" is a note about a date: only a weekday may follow it
+    if (!found) return null;
+    const rest = heading.replace(found.text, " ").replace(/[\s\p{P}]+/gu, " ").trim();
+    if (rest !== "" && !names.weekdays.has(normalizeName(rest))) return null;
+  } else if (firstWord !== undefined && !names.longWeekdays.has(normalizeName(firstWord))) {
+    // "Sun Tzu quotes": a short name needs punctuation or a real date after it
+    const after = heading.slice(firstWord.length);
+    if (!/^(?:$|\p{P})/u.test(after) && !date) return null;
+  }
+  if (weekday === undefined) {
+    if (!date) return null;
+    weekday = isoWeekday(date);
+  }
+
+  const { startDate } = context;
+  if (date === undefined && startDate && isValidIsoDate(startDate)) {
+    date = addDays(startDate, (weekday - isoWeekday(startDate) + 7) % 7);
+  }
+
+  return { dayName: DAY_NAMES[weekday], date };
+}
+
+/** The heading Hexfield Deck writes for a day: "Monday, February 9, 2026". */
+export function formatDayHeading(iso: string): string {
+  const [year, month, day] = iso.split("-").map(Number);
+  return `${DAY_NAMES[isoWeekday(iso)]}, ${MONTH_NAMES[month - 1]} ${day}, ${year}`;
+}
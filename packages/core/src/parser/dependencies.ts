@@ -0,0 +1,39 @@
+import type { BoardData, Card, ParseDiagnostic } from "../models/types.js";
+import { allCards } from "../models/types.js";
+
+/** Statuses that no longer hold up the cards waiting on them. */
+const FINISHED = ["done", "cancelled"];
+
+/**
+ * Link `after:^anchor` dependencies between the board's cards: fill in each
+ * card's `blockedBy` (unfinished dependencies) and `blocks` (cards waiting on
+ * it), both as card IDs. Anchors no card carries are reported as warnings.
+ */
+export function resolveDependencies(
+  board: BoardData,
+  diagnostics: ParseDiagnostic[],
+): void {
+  const cards = allCards(board);
+  const byAnchor = new Map<string, Card>();
+  for (const card of cards) {
+    if (card.anchor && !byAnchor.has(card.anchor)) byAnchor.set(card.anchor, card);
+  }
+
+  for (const card of cards) {
+    for (const anchor of card.dependsOn ?? []) {
+      const dependency = byAnchor.get(anchor);
+      if (!dependency) {
+        diagnostics.push({
+          line: card.lineNumber,
+          severity: "warning",
+          message: `No task has the anchor ^${anchor}, so "${card.title}" can't wait on it.`,
+        });
+        continue;
+      }
+      dependency.blocks = [...(dependency.blocks ?? []), card.id];
+      if (!FINISHED.includes(dependency.status)) {
+        card.blockedBy = [...(card.blockedBy ?? []), dependency.id];
+      }
+    }
+  }
+}
@@ -22,6 +22,7 @@ describe("parseFrontmatter", () => {
       quarter: "Q1",
       startDate: "2026-02-02",
       endDate: "2026-02-08",
+      extra: {},
     });
     expect(bodyStartLine).toBe(8);
   });
@@ -33,6 +34,7 @@ describe("parseFrontmatter", () => {
       week: 3,
       year: 2026,
       tags: ["planner"],
+      extra: {},
     });
   });
 
@@ -66,4 +68,55 @@ describe("parseFrontmatter", () => {
     const { frontmatter } = parseFrontmatter(lines);
     expect(frontmatter?.tags).toEqual([]);
   });
+
+  it("parses block lists, quoted strings and comments", () => {
+    const lines = [
+      "---",
+      "# Week file for the platform team",
+      "week: 7 # current sprint week",
+      "year: 2026",
+      "tags:",
+      "  - planner",
+      '  - "weekly review"',
+      "quarter: 'Q1'",
+      "---",
+    ];
+    const { frontmatter, diagnostics } = parseFrontmatter(lines);
+    expect(frontmatter).toEqual({
+      week: 7,
+      year: 2026,
+      tags: ["planner", "weekly review"],
+      quarter: "Q1",
+      extra: {},
+    });
+    expect(diagnostics).toEqual([]);
+  });
+
+  it("keeps custom keys in extra", () => {
+    const lines = [
+      "---",
+      "week: 7",
+      "owner: Dana",
+      "sprint: 14",
+      "capacity:",
+      "  dev: 30",
+      "  review: 5",
+      "---",
+    ];
+    const { frontmatter } = parseFrontmatter(lines);
+    expect(frontmatter?.extra).toEqual({
+      owner: "Dana",
+      sprint: 14,
+      capacity: { dev: 30, review: 5 },
+    });
+  });
+
+  it("reports invalid YAML with the file's line number", () => {
+    const lines = ["---", "week: 7", "tags: [planner", "---"];
+    const { frontmatter, diagnostics } = parseFrontmatter(lines);
+    expect(frontmatter?.week).toBe(0);
+    expect(diagnostics).toHaveLength(1);
+    expect(diagnostics[0]).toMatchObject({ severity: "error" });
+    expect(diagnostics[0].message).toMatch(/^Frontmatter is not valid YAML/);
+  });
 });
@@ -1,4 +1,15 @@
-import type { Frontmatter } from "../models/types.js";
+import { parseDocument } from "yaml";
+import type { Frontmatter, ParseDiagnostic } from "../models/types.js";
+
+/** Keys with a dedicated `Frontmatter` field; everything else lands in `extra`. */
+export const FRONTMATTER_KEYS: readonly string[] = [
+  "week",
+  "year",
+  "tags",
+  "quarter",
+  "startDate",
+  "endDate",
+];
 
 /**
  * Parse YAML frontmatter from the top of a markdown file.
@@ -7,9 +18,10 @@ import type { Frontmatter } from "../models/types.js";
 export function parseFrontmatter(lines: string[]): {
   frontmatter: Frontmatter | null;
   bodyStartLine: number;
+  diagnostics: ParseDiagnostic[];
 } {
   if (lines.length === 0 || lines[0].trim() !== "---") {
-    return { frontmatter: null, bodyStartLine: 0 };
+    return { frontmatter: null, bodyStartLine: 0, diagnostics: [] };
   }
 
   let endIndex = -1;
@@ -21,43 +33,62 @@ export function parseFrontmatter(lines: string[]): {
   }
 
   if (endIndex === -1) {
-    return { frontmatter: null, bodyStartLine: 0 };
+    return { frontmatter: null, bodyStartLine: 0, diagnostics: [] };
   }
 
-  const kvLines = lines.slice(1, endIndex);
-  const raw: Record<string, string> = {};
+  const doc = parseDocument(lines.slice(1, endIndex).join("\n"));
+  const diagnostics: ParseDiagnostic[] = doc.errors.map((error) => ({
+    // linePos is 1-based within the YAML text, which starts after the fence
+    line: (error.linePos?.[0].line ?? 1) + 1,
+    severity: "error",
+    message: `Frontmatter is not valid YAML: ${error.message
+      .split("\n")[0]
+      .replace(/ at line \d+, column \d+:?$/, "")}`,
+  }));
 
-  for (const line of kvLines) {
-    const match = line.match(/^(\w[\w-]*):\s*(.*)$/);
-    if (match) {
-      raw[match[1]] = match[2].trim();
-    }
+  const value: unknown = doc.errors.length === 0 ? doc.toJS() : null;
+  const raw: Record<string, unknown> =
+    value !== null && typeof value === "object" && !Array.isArray(value)
+      ? (value as Record<string, unknown>)
+      : {};
+
+  const extra: Record<string, unknown> = {};
+  for (const [key, val] of Object.entries(raw)) {
+    if (!FRONTMATTER_KEYS.includes(key)) extra[key] = val;
   }
 
-  const tags = parseArray(raw["tags"]);
+  const quarter = parseString(raw["quarter"]);
+  const startDate = parseString(raw["startDate"]);
+  const endDate = parseString(raw["endDate"]);
 
   const frontmatter: Frontmatter = {
     week: Number(raw["week"]) || 0,
     year: Number(raw["year"]) || 0,
-    tags,
-    ...(raw["quarter"] ? { quarter: raw["quarter"] } : {}),
-    ...(raw["startDate"] ? { startDate: raw["startDate"] } : {}),
-    ...(raw["endDate"] ? { endDate: raw["endDate"] } : {}),
+    tags: parseTags(raw["tags"]),
+    ...(quarter ? { quarter } : {}),
+    ...(startDate ? { startDate } : {}),
+    ...(endDate ? { endDate } : {}),
+    extra,
   };
 
-  return { frontmatter, bodyStartLine: endIndex + 1 };
+  return { frontmatter, bodyStartLine: endIndex + 1, diagnostics };
 }
 
-/** Parse `[a, b, c]` or `a, b, c` into a string array. */
-function parseArray(value: string | undefined): string[] {
-  if (!value) return [];
-  // Strip surrounding brackets
-  let inner = value;
-  if (inner.startsWith("[") && inner.endsWith("]")) {
-    inner = inner.slice(1, -1);
+/** Scalars as strings (`quarter: 1` → "1"); dates written as YAML timestamps keep their ISO day. */
+function parseString(value: unknown): string | undefined {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === "string" || typeof value === "number") {
+    return String(value);
   }
-  return inner
-    .split(",")
-    .map((s) => s.trim())
-    .filter((s) => s.length > 0);
+  return undefined;
+}
+
+/** A YAML list, or a plain `a, b, c` string, as a string array. */
+function parseTags(value: unknown): string[] {
+  const items = Array.isArray(value)
+    ? value.map((item) => String(item))
+    : typeof value === "string"
+      ? value.split(",")
+      : [];
+  return items.map((s) => s.trim()).filter((s) => s.length > 0);
 }
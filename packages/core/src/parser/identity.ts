@@ -0,0 +1,46 @@
+import { DURATION_PATTERN } from "../models/duration.js";
+
+/** 32-bit FNV-1a hash of a string, in base 36. */
+function fnv1a(text: string): string {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(36);
+}
+
+/**
+ * `done:`/`started:` stamps and Obsidian Tasks `✅` dates, which change with
+ * the state, `spent:` time, which changes as the timer logs it, and the
+ * `rolled:` count, which changes with each rollover.
+ */
+const STAMP_RE = new RegExp(
+  `(?:^|\\s)(?:(?:done:|started:|✅\\s*)\\d{4}-\\d{2}-\\d{2}|spent:${DURATION_PATTERN}|rolled:\\d+)`,
+  "gu",
+);
+
+/**
+ * Create a card ID generator for one parse of a file.
+ *
+ * A card with a `^block-id` anchor is identified by it. Other cards get a
+ * fingerprint of their section and task text (without the checkbox, date
+ * stamps, logged time or rollover count, so state changes keep the ID);
+ * repeats of the same text in a section are numbered.
+ * Either way, edits above a card no longer change its ID.
+ */
+export function createCardIdGenerator(): (
+  section: string,
+  text: string,
+  anchor?: string,
+) => string {
+  const seen = new Map<string, number>();
+  return (section, text, anchor) => {
+    const base = anchor
+      ? `^${anchor}`
+      : `card-${fnv1a(`${section}\u0000${text.replace(STAMP_RE, "").trim()}`)}`;
+    const count = (seen.get(base) ?? 0) + 1;
+    seen.set(base, count);
+    return count === 1 ? base : `${base}-${count}`;
+  };
+}
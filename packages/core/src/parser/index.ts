@@ -1,9 +1,19 @@
-export { parseBoard } from "./parser.js";
+export { parseBoard, parseBoardWithDiagnostics } from "./parser.js";
+export type { ParseOptions } from "./parser.js";
 export { parseFrontmatter } from "./frontmatter.js";
 export {
   extractProject,
   extractDueDate,
   extractPriority,
   extractTimeEstimate,
+  extractTimeSpent,
+  extractAnchor,
+  extractTags,
+  extractMentions,
+  extractRecurrence,
+  extractDependencies,
+  extractStamps,
+  extractObsidianFields,
   parseAllMetadata,
 } from "./metadata.js";
+export type { ExtractedMetadata, MetadataOptions } from "./metadata.js";
@@ -4,6 +4,10 @@ import {
   extractDueDate,
   extractPriority,
   extractTimeEstimate,
+  extractTimeSpent,
+  extractAnchor,
+  extractTags,
+  extractMentions,
   parseAllMetadata,
 } from "./metadata.js";
 
@@ -52,6 +56,16 @@ describe("extractDueDate", () => {
     expect(cleanText).toBe("Ship feature");
   });
 
+  it("resolves relative due: dates", () => {
+    expect(extractDueDate("Ship due:tomorrow", "2026-02-10")).toEqual({
+      dueDate: "2026-02-11",
+      relativeDueDate: "tomorrow",
+      cleanText: "Ship",
+    });
+    // Unknown expressions stay in the title
+    expect(extractDueDate("Ship due:someday", "2026-02-10").dueDate).toBeUndefined();
+  });
+
   it("extracts due: prefix date", () => {
     const { dueDate, cleanText } = extractDueDate(
       "Ship feature due:2026-03-15",
@@ -100,18 +114,26 @@ describe("extractTimeEstimate", () => {
     const { timeEstimate, cleanText } = extractTimeEstimate(
       "Build widget est:2h",
     );
-    expect(timeEstimate).toBe("2h");
+    expect(timeEstimate).toEqual({ text: "2h", minutes: 120 });
     expect(cleanText).toBe("Build widget");
   });
 
   it("extracts est:Xm format", () => {
     const { timeEstimate } = extractTimeEstimate("Quick fix est:30m");
-    expect(timeEstimate).toBe("30m");
+    expect(timeEstimate?.minutes).toBe(30);
   });
 
   it("extracts emoji format", () => {
     const { timeEstimate } = extractTimeEstimate("Task ⏱️ 2h");
-    expect(timeEstimate).toBe("2h");
+    expect(timeEstimate?.text).toBe("2h");
+  });
+
+  it("extracts compound, fractional, day and min durations", () => {
+    expect(extractTimeEstimate("A est:1h30m").timeEstimate?.minutes).toBe(90);
+    expect(extractTimeEstimate("B est:1.5h").timeEstimate?.minutes).toBe(90);
+    expect(extractTimeEstimate("C est:90min").timeEstimate?.minutes).toBe(90);
+    expect(extractTimeEstimate("D est:2d", 6).timeEstimate?.minutes).toBe(720);
+    expect(extractTimeEstimate("E est:2d").cleanText).toBe("E");
   });
 
   it("returns undefined when no estimate", () => {
@@ -120,6 +142,67 @@ describe("extractTimeEstimate", () => {
   });
 });
 
+describe("extractTimeSpent", () => {
+  it("extracts logged hours and minutes", () => {
+    const { timeSpent, cleanText } = extractTimeSpent(
+      "Build widget est:2h spent:1h30m",
+    );
+    expect(timeSpent).toEqual({ text: "1h30m", minutes: 90 });
+    expect(cleanText).toBe("Build widget est:2h");
+  });
+
+  it("leaves malformed values in the title", () => {
+    const { timeSpent, cleanText } = extractTimeSpent("Tally spent:lots");
+    expect(timeSpent).toBeUndefined();
+    expect(cleanText).toBe("Tally spent:lots");
+  });
+});
+
+describe("extractAnchor", () => {
+  it("extracts a trailing block anchor", () => {
+    const { anchor, cleanText } = extractAnchor("Deploy DB #infra ^deploy-db");
+    expect(anchor).toBe("deploy-db");
+    expect(cleanText).toBe("Deploy DB #infra");
+  });
+
+  it("ignores a caret that is not at the end", () => {
+    const { anchor } = extractAnchor("Raise x^2 to the power");
+    expect(anchor).toBeUndefined();
+  });
+});
+
+describe("extractTags", () => {
+  it("extracts every tag and takes the first as the project", () => {
+    const { tags, project, cleanText } = extractTags(
+      "Call vendor #ops #waiting about #deep-work invoices",
+    );
+    expect(tags).toEqual(["ops", "waiting", "deep-work"]);
+    expect(project).toBe("ops");
+    expect(cleanText).toBe("Call vendor about invoices");
+  });
+
+  it("takes the project from a configured prefix", () => {
+    const { project } = extractTags("Plan #waiting #proj-hexfield", "proj-");
+    expect(project).toBe("proj-hexfield");
+    expect(extractTags("Plan #waiting", "proj-").project).toBeUndefined();
+  });
+
+  it("leaves URL fragments and link anchors alone", () => {
+    const text = "See https://example.com#anchor and [docs](#overview)";
+    expect(extractTags(text)).toEqual({ tags: [], project: undefined, cleanText: text });
+  });
+});
+
+describe("extractMentions", () => {
+  it("collects @handles and leaves email addresses alone", () => {
+    const { assignees, cleanText } = extractMentions(
+      "Review budget @alice with @bob-k and finance@example.com @alice",
+    );
+    expect(assignees).toEqual(["alice", "bob-k"]);
+    expect(cleanText).toBe("Review budget with and finance@example.com");
+  });
+});
+
 describe("parseAllMetadata", () => {
   it("extracts all metadata from a fully-tagged task", () => {
     const result = parseAllMetadata(
@@ -127,16 +210,48 @@ describe("parseAllMetadata", () => {
     );
     expect(result).toEqual({
       cleanTitle: "Deploy API",
+      tags: ["backend"],
       project: "backend",
       dueDate: "2026-03-01",
       priority: "high",
-      timeEstimate: "4h",
+      timeEstimate: { text: "4h", minutes: 240 },
     });
   });
 
   it("returns clean title when no metadata", () => {
     const result = parseAllMetadata("Simple task");
-    expect(result).toEqual({ cleanTitle: "Simple task" });
+    expect(result).toEqual({ cleanTitle: "Simple task", tags: [] });
+  });
+
+  it("reads the Obsidian Tasks emoji dialect", () => {
+    const result = parseAllMetadata(
+      "Send report #ops ⏫ 🔁 every week ➕ 2026-02-01 🛫 2026-02-08 ⏳ 2026-02-09 📅 2026-02-10 ✅ 2026-02-09",
+    );
+    expect(result).toEqual({
+      cleanTitle: "Send report",
+      tags: ["ops"],
+      project: "ops",
+      dueDate: "2026-02-10",
+      priority: "high",
+      scheduledDate: "2026-02-09",
+      startDate: "2026-02-08",
+      createdDate: "2026-02-01",
+      completedDate: "2026-02-09",
+      recurrence: { text: "week", interval: 1, unit: "week" },
+      dialect: "obsidian",
+    });
+    expect(parseAllMetadata("Tidy desk 🔽").priority).toBe("low");
+  });
+
+  it("reads start and completion stamps and the rollover count", () => {
+    expect(parseAllMetadata("Write docs started:2026-02-09 rolled:2 done:2026-02-12")).toEqual({
+      cleanTitle: "Write docs",
+      tags: [],
+      startedDate: "2026-02-09",
+      completedDate: "2026-02-12",
+      rolledOver: 2,
+    });
+    expect(parseAllMetadata("Count rolled:many").cleanTitle).toBe("Count rolled:many");
   });
 
   it("handles partial metadata", () => {
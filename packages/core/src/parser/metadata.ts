@@ -1,13 +1,45 @@
-import type { Priority } from "../models/types.js";
+import { parseRecurrence } from "../models/recurrence.js";
+import { DURATION_PATTERN, parseDuration } from "../models/duration.js";
+import type { Duration, Priority, Recurrence } from "../models/types.js";
+import { formatIsoDate } from "../utils/dates.js";
+import { resolveRelativeDate } from "./relativeDate.js";
 
 export interface ExtractedMetadata {
   cleanTitle: string;
+  tags: string[];
   project?: string;
+  /** Handles (without `@`) from `@alice` mentions. */
+  assignees?: string[];
   dueDate?: string;
+  /** The relative expression (`tomorrow`, `+3d`) `dueDate` was resolved from. */
+  relativeDueDate?: string;
   priority?: Priority;
-  timeEstimate?: string;
+  timeEstimate?: Duration;
+  /** Time logged against the task: `spent:1h30m`. */
+  timeSpent?: Duration;
+  anchor?: string;
+  /** Obsidian Tasks `⏳` date. */
+  scheduledDate?: string;
+  /** Obsidian Tasks `🛫` date. */
+  startDate?: string;
+  /** Obsidian Tasks `➕` date. */
+  createdDate?: string;
+  /** `done:` or Obsidian Tasks `✅` date. */
+  completedDate?: string;
+  /** `started:` date. */
+  startedDate?: string;
+  /** Weeks the task has been rolled over: `rolled:2`. */
+  rolledOver?: number;
+  recurrence?: Recurrence;
+  /** Anchors (without `^`) from `after:^anchor` tokens. */
+  dependsOn?: string[];
+  /** "obsidian" when the text uses Obsidian Tasks emoji; absent for Hexfield syntax. */
+  dialect?: "obsidian";
 }
 
+/** Every emoji the Obsidian Tasks plugin uses as a field marker. */
+const OBSIDIAN_MARKER_RE = /📅|⏳|🛫|✅|➕|🔁|🔺|⏫|🔼|🔽|⏬/u;
+
 /** Extract the first #project tag from text. */
 export function extractProject(text: string): {
   project: string | undefined;
@@ -19,9 +51,58 @@ export function extractProject(text: string): {
   return { project: match[1], cleanText };
 }
 
-/** Extract a due date: `[YYYY-MM-DD]` or `due:YYYY-MM-DD`. */
-export function extractDueDate(text: string): {
+/**
+ * Extract every `#tag` from text. The project is the first tag, or with
+ * `projectPrefix` (e.g. "proj-") the first tag starting with it.
+ */
+export function extractTags(
+  text: string,
+  projectPrefix?: string,
+): {
+  tags: string[];
+  project: string | undefined;
+  cleanText: string;
+} {
+  const tagPattern = /(?:^|\s)#([a-zA-Z0-9_-]+)/g;
+  const tags = [...text.matchAll(tagPattern)].map((m) => m[1]);
+  if (tags.length === 0) return { tags, project: undefined, cleanText: text };
+  const cleanText = text
+    .replace(tagPattern, "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+  const project = projectPrefix
+    ? tags.find((tag) => tag.startsWith(projectPrefix))
+    : tags[0];
+  return { tags, project, cleanText };
+}
+
+/** Extract every `@handle` mention, e.g. `@alice` or `@bob-k`. */
+export function extractMentions(text: string): {
+  assignees: string[] | undefined;
+  cleanText: string;
+} {
+  const pattern = /(?:^|\s)@([a-zA-Z0-9_-]+)/g;
+  const handles = [...text.matchAll(pattern)].map((m) => m[1]);
+  if (handles.length === 0) return { assignees: undefined, cleanText: text };
+  const cleanText = text
+    .replace(pattern, "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+  return { assignees: [...new Set(handles)], cleanText };
+}
+
+/**
+ * Extract a due date: `[YYYY-MM-DD]`, `due:YYYY-MM-DD` or `📅 YYYY-MM-DD`,
+ * or a relative `due:tomorrow`, `due:fri`, `due:+3d`, `due:next-week` or
+ * `due:eow` counted from `relativeTo` (default: today).
+ */
+export function extractDueDate(
+  text: string,
+  relativeTo: string = formatIsoDate(new Date()),
+): {
   dueDate: string | undefined;
+  /** The relative expression the due date was resolved from. */
+  relativeDueDate?: string;
   cleanText: string;
 } {
   // Try bracketed form first
@@ -42,14 +123,52 @@ export function extractDueDate(text: string): {
       .trim();
     return { dueDate: dueMatch[1], cleanText };
   }
+  // Try the Obsidian Tasks emoji
+  const emojiMatch = text.match(/📅\s*(\d{4}-\d{2}-\d{2})/u);
+  if (emojiMatch) {
+    const cleanText = text
+      .replace(emojiMatch[0], "")
+      .replace(/\s{2,}/g, " ")
+      .trim();
+    return { dueDate: emojiMatch[1], cleanText };
+  }
+  // Try a relative date; one that doesn't resolve stays in the title
+  const relativeMatch = text.match(/(?:^|\s)due:([a-zA-Z0-9+-]+)(?=\s|$)/);
+  const dueDate = relativeMatch
+    ? resolveRelativeDate(relativeMatch[1], relativeTo)
+    : undefined;
+  if (relativeMatch && dueDate) {
+    const cleanText = text
+      .replace(relativeMatch[0], "")
+      .replace(/\s{2,}/g, " ")
+      .trim();
+    return { dueDate, relativeDueDate: relativeMatch[1], cleanText };
+  }
   return { dueDate: undefined, cleanText: text };
 }
 
-/** Extract priority: `!!!` = high, `!!` = medium, `!` = low. Longest match first. */
+/**
+ * Extract priority: `!!!` = high, `!!` = medium, `!` = low. Longest match first.
+ * Obsidian Tasks emoji count too: `🔺`/`⏫` high, `🔼` medium, `🔽`/`⏬` low.
+ */
 export function extractPriority(text: string): {
   priority: Priority | undefined;
   cleanText: string;
 } {
+  const emojiMatch = text.match(/🔺|⏫|🔼|🔽|⏬/u);
+  if (emojiMatch) {
+    const cleanText = text
+      .replace(emojiMatch[0], "")
+      .replace(/\s{2,}/g, " ")
+      .trim();
+    const priority: Priority =
+      emojiMatch[0] === "🔼"
+        ? "medium"
+        : emojiMatch[0] === "🔽" || emojiMatch[0] === "⏬"
+          ? "low"
+          : "high";
+    return { priority, cleanText };
+  }
   // Match !!! / !! / ! that aren't part of a word (not preceded by a letter)
   // Check longest first
   const tripleMatch = text.match(/(?<![a-zA-Z])!!!/);
@@ -79,41 +198,203 @@ export function extractPriority(text: string): {
   return { priority: undefined, cleanText: text };
 }
 
-/** Extract time estimate: `est:2h`, `est:30m`, `⏱️ 2h`, `⏱️ 30m`. */
-export function extractTimeEstimate(text: string): {
-  timeEstimate: string | undefined;
+/** Duration tokens; the value must run to whitespace or the end of the text. */
+const EST_RE = new RegExp(`est:(${DURATION_PATTERN})(?=\\s|$)`);
+const EST_EMOJI_RE = new RegExp(`⏱️\\s*(${DURATION_PATTERN})(?=\\s|$)`, "u");
+const SPENT_RE = new RegExp(`(?:^|\\s)spent:(${DURATION_PATTERN})(?=\\s|$)`);
+
+/**
+ * Extract time estimate: `est:2h`, `est:1h30m`, `est:1.5h`, `est:2d`,
+ * `est:90min`, `⏱️ 2h`. A day is `hoursPerDay` hours long.
+ */
+export function extractTimeEstimate(
+  text: string,
+  hoursPerDay?: number,
+): {
+  timeEstimate: Duration | undefined;
   cleanText: string;
 } {
-  const estMatch = text.match(/est:(\d+[hm])/);
-  if (estMatch) {
-    const cleanText = text
-      .replace(estMatch[0], "")
-      .replace(/\s{2,}/g, " ")
-      .trim();
-    return { timeEstimate: estMatch[1], cleanText };
-  }
-  const emojiMatch = text.match(/⏱️\s*(\d+[hm])/);
-  if (emojiMatch) {
-    const cleanText = text
-      .replace(emojiMatch[0], "")
-      .replace(/\s{2,}/g, " ")
-      .trim();
-    return { timeEstimate: emojiMatch[1], cleanText };
-  }
-  return { timeEstimate: undefined, cleanText: text };
+  const match = text.match(EST_RE) ?? text.match(EST_EMOJI_RE);
+  if (!match) return { timeEstimate: undefined, cleanText: text };
+  const cleanText = text
+    .replace(match[0], "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+  return { timeEstimate: parseDuration(match[1], hoursPerDay), cleanText };
+}
+
+/** Extract logged time: `spent:1h30m`, `spent:2h`, `spent:45m`. */
+export function extractTimeSpent(
+  text: string,
+  hoursPerDay?: number,
+): {
+  timeSpent: Duration | undefined;
+  cleanText: string;
+} {
+  const match = text.match(SPENT_RE);
+  if (!match) return { timeSpent: undefined, cleanText: text };
+  const cleanText = text
+    .replace(match[0], "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+  return { timeSpent: parseDuration(match[1], hoursPerDay), cleanText };
+}
+
+/** Extract a trailing block anchor: `^deploy-db`. */
+export function extractAnchor(text: string): {
+  anchor: string | undefined;
+  cleanText: string;
+} {
+  const match = text.match(/(?:^|\s)\^([a-zA-Z0-9-]+)\s*$/);
+  if (!match) return { anchor: undefined, cleanText: text };
+  const cleanText = text.slice(0, match.index).trim();
+  return { anchor: match[1], cleanText };
+}
+
+/** Extract dependencies: `after:^deploy-db`, repeated or as `after:^a,^b`. */
+export function extractDependencies(text: string): {
+  dependsOn: string[] | undefined;
+  cleanText: string;
+} {
+  const pattern = /(?:^|\s)after:(\^[a-zA-Z0-9-]+(?:,\^[a-zA-Z0-9-]+)*)/g;
+  const matches = [...text.matchAll(pattern)];
+  if (matches.length === 0) return { dependsOn: undefined, cleanText: text };
+  const dependsOn = matches.flatMap((m) =>
+    m[1].split(",").map((ref) => ref.slice(1)),
+  );
+  const cleanText = text
+    .replace(pattern, "")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+  return { dependsOn, cleanText };
+}
+
+/**
+ * Extract a recurrence rule: `every:weekly`, `every:mon,thu`, `every:2w`, or
+ * Obsidian Tasks `🔁 every 2 weeks`. Rules that can't be read stay in the title.
+ */
+export function extractRecurrence(text: string): {
+  recurrence: Recurrence | undefined;
+  cleanText: string;
+} {
+  const match =
+    text.match(/(?:^|\s)every:(\S+)/) ??
+    // The emoji rule runs up to the next field, tag or anchor
+    text.match(/🔁\s*([^#^📅⏳🛫✅➕🔺⏫🔼🔽⏬]+?)\s*(?=[#^📅⏳🛫✅➕🔺⏫🔼🔽⏬]|$)/u);
+  const recurrence = match ? parseRecurrence(match[1]) : undefined;
+  if (!match || !recurrence) return { recurrence: undefined, cleanText: text };
+  const cleanText = text
+    .replace(match[0], " ")
+    .replace(/\s{2,}/g, " ")
+    .trim();
+  return { recurrence, cleanText };
+}
+
+/**
+ * Extract completion and start stamps, `done:YYYY-MM-DD` and
+ * `started:YYYY-MM-DD`, and the rollover count `rolled:N`.
+ */
+export function extractStamps(text: string): {
+  completedDate: string | undefined;
+  startedDate: string | undefined;
+  rolledOver: number | undefined;
+  cleanText: string;
+} {
+  let cleanText = text;
+  const take = (pattern: RegExp): string | undefined => {
+    const match = cleanText.match(pattern);
+    if (!match) return undefined;
+    cleanText = cleanText.replace(match[0], "").replace(/\s{2,}/g, " ").trim();
+    return match[1];
+  };
+  const completedDate = take(/(?:^|\s)done:(\d{4}-\d{2}-\d{2})/);
+  const startedDate = take(/(?:^|\s)started:(\d{4}-\d{2}-\d{2})/);
+  const rolled = take(/(?:^|\s)rolled:(\d+)(?=\s|$)/);
+  const rolledOver = rolled !== undefined ? Number(rolled) : undefined;
+  return { completedDate, startedDate, rolledOver, cleanText };
+}
+
+/**
+ * Extract the other Obsidian Tasks fields: `⏳` scheduled, `🛫` start,
+ * `➕` created and `✅` done dates.
+ */
+export function extractObsidianFields(text: string): {
+  scheduledDate: string | undefined;
+  startDate: string | undefined;
+  createdDate: string | undefined;
+  completedDate: string | undefined;
+  cleanText: string;
+} {
+  let cleanText = text;
+  const take = (pattern: RegExp): string | undefined => {
+    const match = cleanText.match(pattern);
+    if (!match) return undefined;
+    cleanText = cleanText.replace(match[0], "").replace(/\s{2,}/g, " ").trim();
+    return match[1];
+  };
+  const scheduledDate = take(/⏳\s*(\d{4}-\d{2}-\d{2})/u);
+  const startDate = take(/🛫\s*(\d{4}-\d{2}-\d{2})/u);
+  const completedDate = take(/✅\s*(\d{4}-\d{2}-\d{2})/u);
+  const createdDate = take(/➕\s*(\d{4}-\d{2}-\d{2})/u);
+  return { scheduledDate, startDate, createdDate, completedDate, cleanText };
+}
+
+/** Options for reading task metadata. */
+export interface MetadataOptions {
+  /** Only a tag with this prefix is the card's project (default: the first tag). */
+  projectPrefix?: string;
+  /** Hours in a `d` of an estimate or logged time (default 8). */
+  hoursPerDay?: number;
+  /** ISO date relative due dates (`due:tomorrow`) count from (default: today). */
+  relativeTo?: string;
 }
 
 /** Run all metadata extractors in sequence. */
-export function parseAllMetadata(text: string): ExtractedMetadata {
-  const { project, cleanText: t1 } = extractProject(text);
-  const { dueDate, cleanText: t2 } = extractDueDate(t1);
-  const { priority, cleanText: t3 } = extractPriority(t2);
-  const { timeEstimate, cleanText: t4 } = extractTimeEstimate(t3);
+export function parseAllMetadata(
+  text: string,
+  options: MetadataOptions = {},
+): ExtractedMetadata {
+  const { anchor, cleanText: t0 } = extractAnchor(text);
+  const { tags, project, cleanText: t1 } = extractTags(t0, options.projectPrefix);
+  const { assignees, cleanText: t2 } = extractMentions(t1);
+  const { dueDate, relativeDueDate, cleanText: t3 } = extractDueDate(
+    t2,
+    options.relativeTo,
+  );
+  const { priority, cleanText: t4 } = extractPriority(t3);
+  const { timeEstimate, cleanText: t5 } = extractTimeEstimate(t4, options.hoursPerDay);
+  const { timeSpent, cleanText: t6 } = extractTimeSpent(t5, options.hoursPerDay);
+  const { recurrence, cleanText: t7 } = extractRecurrence(t6);
+  const {
+    scheduledDate,
+    startDate,
+    createdDate,
+    completedDate: doneEmoji,
+    cleanText: t8,
+  } = extractObsidianFields(t7);
+  const { completedDate: doneStamp, startedDate, rolledOver, cleanText: t9 } =
+    extractStamps(t8);
+  const { dependsOn, cleanText: t10 } = extractDependencies(t9);
+  const completedDate = doneStamp ?? doneEmoji;
   return {
-    cleanTitle: t4,
+    cleanTitle: t10,
+    tags,
     ...(project !== undefined ? { project } : {}),
+    ...(assignees !== undefined ? { assignees } : {}),
     ...(dueDate !== undefined ? { dueDate } : {}),
+    ...(relativeDueDate !== undefined ? { relativeDueDate } : {}),
     ...(priority !== undefined ? { priority } : {}),
     ...(timeEstimate !== undefined ? { timeEstimate } : {}),
+    ...(timeSpent !== undefined ? { timeSpent } : {}),
+    ...(anchor !== undefined ? { anchor } : {}),
+    ...(scheduledDate !== undefined ? { scheduledDate } : {}),
+    ...(startDate !== undefined ? { startDate } : {}),
+    ...(createdDate !== undefined ? { createdDate } : {}),
+    ...(completedDate !== undefined ? { completedDate } : {}),
+    ...(startedDate !== undefined ? { startedDate } : {}),
+    ...(rolledOver !== undefined ? { rolledOver } : {}),
+    ...(recurrence !== undefined ? { recurrence } : {}),
+    ...(dependsOn !== undefined ? { dependsOn } : {}),
+    ...(OBSIDIAN_MARKER_RE.test(text) ? { dialect: "obsidian" as const } : {}),
   };
 }
@@ -1,6 +1,7 @@
 import { describe, it, expect } from "vitest";
-import { parseBoard } from "./parser.js";
-import { allCards } from "../models/types.js";
+import { parseBoard, parseBoardWithDiagnostics } from "./parser.js";
+import { allCards, subTaskProgress } from "../models/types.js";
+import { serializeBoard } from "../serializer/serializer.js";
 
 const FULL_PLANNER = `---
 week: 7
@@ -77,9 +78,12 @@ describe("parseBoard", () => {
     expect(board.backlog[2].key).toBe("this-month");
 
     // Long-term sections
-    expect(board.thisQuarter).toHaveLength(1);
-    expect(board.thisYear).toHaveLength(1);
-    expect(board.parkingLot).toHaveLength(1);
+    expect(board.longTerm.map((s) => s.key)).toEqual([
+      "this-quarter",
+      "this-year",
+      "parking-lot",
+    ]);
+    expect(board.longTerm.map((s) => s.cards.length)).toEqual([1, 1, 1]);
   });
 
   it("parses day section cards correctly", () => {
@@ -112,6 +116,42 @@ describe("parseBoard", () => {
     expect(review.body).toContain("Body note for review task");
   });
 
+  it("nests indented sub-tasks and reads their metadata", () => {
+    const input = [
+      "## Monday, February 9, 2026",
+      "- [ ] Ship release",
+      "  - [ ] Tests #qa !!",
+      "    - [x] Unit",
+      "    - [ ] E2E [2026-02-10] est:2h",
+      "  - [x] Changelog",
+    ].join("\n");
+    const [card] = parseBoard(input).days[0].cards;
+
+    expect(card.subTasks.map((st) => st.title)).toEqual(["Tests", "Changelog"]);
+    const [tests] = card.subTasks;
+    expect(tests.project).toBe("qa");
+    expect(tests.priority).toBe("medium");
+    expect(tests.children.map((st) => st.title)).toEqual(["Unit", "E2E"]);
+    expect(tests.children[1]).toMatchObject({
+      dueDate: "2026-02-10",
+      timeEstimate: { text: "2h", minutes: 120 },
+      lineNumber: 5,
+      children: [],
+    });
+    expect(subTaskProgress(card.subTasks)).toEqual({ done: 2, total: 3 });
+  });
+
+  it("collects all tags and picks the project by prefix", () => {
+    const input = "## Monday, February 9, 2026\n- [ ] Call vendor #waiting #p-ops\n";
+    const [card] = parseBoard(input).days[0].cards;
+    expect(card.title).toBe("Call vendor");
+    expect(card.tags).toEqual(["waiting", "p-ops"]);
+    expect(card.project).toBe("waiting");
+
+    const [prefixed] = parseBoard(input, { projectPrefix: "p-" }).days[0].cards;
+    expect(prefixed.project).toBe("p-ops");
+  });
+
   it("handles [/] checkbox as in-progress", () => {
     const board = parseBoard(FULL_PLANNER);
     const tuesday = board.days[1];
@@ -119,7 +159,68 @@ describe("parseBoard", () => {
 
     expect(parser.status).toBe("in-progress");
     expect(parser.project).toBe("hexfield");
-    expect(parser.timeEstimate).toBe("4h");
+    expect(parser.timeEstimate?.text).toBe("4h");
+  });
+
+  it("accepts every GFM list marker", () => {
+    const input = `---
+week: 6
+year: 2026
+tags: [planner]
+---
+
+## Monday, February 2, 2026
+
+* [ ] Starred
+  + [x] Plus sub-task
+1. [/] Numbered
+  2) [ ] Numbered sub-task
++ [x] Plus
+`;
+    const [starred, numbered, plus] = parseBoard(input).days[0].cards;
+    expect(starred.title).toBe("Starred");
+    expect(starred.subTasks[0]).toMatchObject({ title: "Plus sub-task", status: "done" });
+    expect(numbered).toMatchObject({ title: "Numbered", status: "in-progress" });
+    expect(numbered.subTasks[0].title).toBe("Numbered sub-task");
+    expect(plus.status).toBe("done");
+  });
+
+  it("handles cancelled, blocked and deferred checkboxes", () => {
+    const input = [
+      "## Monday, February 9, 2026",
+      "- [-] Dropped",
+      "- [!] Waiting on legal",
+      "  - [>] Later",
+      "- [>] Next quarter",
+    ].join("\n");
+    const [dropped, waiting, later] = parseBoard(input).days[0].cards;
+
+    expect(dropped.status).toBe("cancelled");
+    expect(waiting.status).toBe("blocked");
+    expect(waiting.subTasks[0].status).toBe("deferred");
+    expect(later.status).toBe("deferred");
+  });
+
+  it("links after:^anchor dependencies both ways", () => {
+    const input = [
+      "## Monday, February 9, 2026",
+      "- [/] Migrate database ^deploy-db",
+      "- [ ] Deploy app after:^deploy-db",
+      "- [ ] Announce after:^deploy-db,^launch",
+      "- [x] Write notes ^notes",
+      "- [ ] Publish after:^notes",
+    ].join("\n");
+    const { board, diagnostics } = parseBoardWithDiagnostics(input);
+    const [db, app, announce, , publish] = board.days[0].cards;
+
+    expect(app.title).toBe("Deploy app");
+    expect(app.dependsOn).toEqual(["deploy-db"]);
+    expect(app.blockedBy).toEqual(["^deploy-db"]);
+    expect(db.blocks).toEqual([app.id, announce.id]);
+    expect(publish.blockedBy).toBeUndefined();
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ line: 4, severity: "warning", message: expect.stringContaining("^launch") }),
+    ]);
   });
 
   it("parses backlog bucket cards", () => {
@@ -137,21 +238,23 @@ describe("parseBoard", () => {
 
     const thisMonth = board.backlog[2];
     expect(thisMonth.cards).toHaveLength(1);
-    expect(thisMonth.cards[0].timeEstimate).toBe("8h");
+    expect(thisMonth.cards[0].timeEstimate?.minutes).toBe(480);
   });
 
   it("parses long-term section cards", () => {
     const board = parseBoard(FULL_PLANNER);
 
-    expect(board.thisQuarter[0].project).toBe("hexfield");
-    expect(board.thisQuarter[0].dueDate).toBe("2026-03-31");
-    expect(board.thisQuarter[0].section).toBe("this-quarter");
+    const [thisQuarter, thisYear, parkingLot] = board.longTerm;
+
+    expect(thisQuarter.cards[0].project).toBe("hexfield");
+    expect(thisQuarter.cards[0].dueDate).toBe("2026-03-31");
+    expect(thisQuarter.cards[0].section).toBe("this-quarter");
 
-    expect(board.thisYear[0].title).toBe("Conference talk proposal");
-    expect(board.thisYear[0].section).toBe("this-year");
+    expect(thisYear.cards[0].title).toBe("Conference talk proposal");
+    expect(thisYear.cards[0].section).toBe("this-year");
 
-    expect(board.parkingLot[0].title).toBe("Rewrite in Rust");
-    expect(board.parkingLot[0].section).toBe("parking-lot");
+    expect(parkingLot.cards[0].title).toBe("Rewrite in Rust");
+    expect(parkingLot.cards[0].section).toBe("parking-lot");
   });
 
   it("collects all cards via allCards helper", () => {
@@ -181,7 +284,8 @@ tags: [planner]
     expect(board.days[0].cards).toHaveLength(0);
     expect(board.backlog).toHaveLength(1);
     expect(board.backlog[0].cards).toHaveLength(0);
-    expect(board.thisQuarter).toHaveLength(0);
+    expect(board.longTerm).toHaveLength(1);
+    expect(board.longTerm[0].cards).toHaveLength(0);
   });
 
   it("skips bold text lines", () => {
@@ -201,6 +305,37 @@ tags: [planner]
     expect(board.days[0].cards[0].title).toBe("Actual task");
   });
 
+  it("ignores checklists in code fences, comments and blockquotes", () => {
+    const input = `---
+week: 6
+year: 2026
+tags: [planner]
+---
+
+## Monday, February 2, 2026
+
+- [ ] Real task
+  \`\`\`
+  - [ ] Pasted sub-task
+  \`\`\`
+~~~markdown
+- [ ] Pasted task
+## Tuesday
+~~~
+<!--
+- [ ] Commented out
+-->
+> - [ ] Quoted
+- [ ] Second task
+`;
+    const { board, diagnostics } = parseBoardWithDiagnostics(input);
+    expect(board.days).toHaveLength(1);
+    expect(board.days[0].cards.map((c) => c.title)).toEqual(["Real task", "Second task"]);
+    expect(board.days[0].cards[0].subTasks).toEqual([]);
+    expect(diagnostics).toEqual([]);
+    expect(serializeBoard(board)).toBe(input);
+  });
+
   it("handles file with no frontmatter", () => {
     const input = `## Monday, February 2, 2026
 
@@ -213,11 +348,54 @@ tags: [planner]
     expect(board.days[0].cards).toHaveLength(1);
   });
 
-  it("assigns card IDs based on line numbers", () => {
+  it("assigns card IDs that survive edits above the card", () => {
     const board = parseBoard(FULL_PLANNER);
-    const card = board.days[0].cards[0];
-    expect(card.id).toMatch(/^card-\d+$/);
+    const card = board.days[1].cards[0];
+    expect(card.id).toMatch(/^card-[0-9a-z]+$/);
     expect(card.lineNumber).toBeGreaterThan(0);
+
+    const edited = parseBoard(
+      FULL_PLANNER.replace("- [x] Morning standup #work", "- [x] Morning standup #work\n- [ ] New task"),
+    );
+    const moved = edited.days[1].cards[0];
+    expect(moved.lineNumber).toBe(card.lineNumber + 1);
+    expect(moved.id).toBe(card.id);
+  });
+
+  it("keeps a card's ID when only its checkbox changes", () => {
+    const before = parseBoard(FULL_PLANNER).days[0].cards[1];
+    const after = parseBoard(
+      FULL_PLANNER.replace("- [ ] Review PRs", "- [x] Review PRs"),
+    ).days[0].cards[1];
+    expect(after.id).toBe(before.id);
+  });
+
+  it("numbers identical cards within a section", () => {
+    const input = `## Monday, February 2, 2026
+
+- [ ] Stretch
+- [ ] Stretch
+
+## Tuesday, February 3, 2026
+
+- [ ] Stretch
+`;
+    const board = parseBoard(input);
+    const [first, second] = board.days[0].cards;
+    expect(second.id).toBe(`${first.id}-2`);
+    expect(board.days[1].cards[0].id).not.toBe(first.id);
+  });
+
+  it("uses a block anchor as the card ID", () => {
+    const input = `## Monday, February 2, 2026
+
+- [ ] Migrate database #infra ^deploy-db
+`;
+    const card = parseBoard(input).days[0].cards[0];
+    expect(card.id).toBe("^deploy-db");
+    expect(card.anchor).toBe("deploy-db");
+    expect(card.title).toBe("Migrate database");
+    expect(card.project).toBe("infra");
   });
 
   it("preserves rawLine for roundtripping", () => {
@@ -226,3 +404,236 @@ tags: [planner]
     expect(card.rawLine).toBe("- [x] Morning standup #work");
   });
 });
+
+describe("planner schema", () => {
+  const TEAM_PLANNER = `---
+week: 7
+year: 2026
+tags: [planner]
+sections:
+  backlog: [Today, This Sprint, Next Sprint]
+  longTerm: [Icebox]
+---
+
+## Backlog
+
+### Today
+
+- [ ] Ship hotfix
+
+### This Sprint
+
+- [ ] Migrate queue
+
+## Icebox
+
+- [ ] Dark mode
+
+## Parking Lot
+
+- [ ] Not a section in this schema
+`;
+
+  it("parses buckets and long-term sections from frontmatter", () => {
+    const board = parseBoard(TEAM_PLANNER);
+    expect(board.schema.backlogBuckets.map((b) => b.key)).toEqual([
+      "today",
+      "this-sprint",
+      "next-sprint",
+    ]);
+    expect(board.backlog.map((b) => [b.key, b.cards.length])).toEqual([
+      ["today", 1],
+      ["this-sprint", 1],
+    ]);
+    expect(board.longTerm).toHaveLength(1);
+    expect(board.longTerm[0].cards[0].section).toBe("icebox");
+    expect(allCards(board).map((c) => c.title)).not.toContain(
+      "Not a section in this schema",
+    );
+  });
+
+  it("uses the schema passed in when the frontmatter has none", () => {
+    const input = "## Backlog\n\n### Today\n\n- [ ] Ship hotfix\n";
+    expect(parseBoard(input).backlog).toHaveLength(0);
+
+    const schema = {
+      backlogBuckets: [{ key: "today", label: "Today" }],
+      longTermSections: [],
+    };
+    expect(parseBoard(input, { schema }).backlog[0].cards[0].title).toBe(
+      "Ship hotfix",
+    );
+  });
+});
+
+describe("day headings", () => {
+  it("reads localized headings and fills missing dates from startDate", () => {
+    const input = `---
+week: 7
+year: 2026
+tags: [planner]
+startDate: 2026-02-09
+locale: de
+---
+
+## Montag, 9. Februar 2026
+
+- [ ] Standup
+
+## Dienstag
+
+## 2026-02-11 Wednesday
+`;
+    const { board, diagnostics } = parseBoardWithDiagnostics(input);
+    expect(board.days.map((d) => [d.dayName, d.date])).toEqual([
+      ["Monday", "2026-02-09"],
+      ["Tuesday", "2026-02-10"],
+      ["Wednesday", "2026-02-11"],
+    ]);
+    expect(board.days[0].cards[0].day).toBe("Monday");
+    expect(diagnostics).toEqual([]);
+  });
+
+  it("takes the locale from the options", () => {
+    const input = "## Montag, 9. Februar 2026\n";
+    expect(parseBoard(input).days).toHaveLength(0);
+    expect(parseBoard(input, { locale: "de" }).days[0].date).toBe("2026-02-09");
+  });
+});
+
+describe("parseBoardWithDiagnostics", () => {
+  it("reports nothing for a well-formed planner", () => {
+    const { board, diagnostics } = parseBoardWithDiagnostics(FULL_PLANNER);
+    expect(diagnostics).toEqual([]);
+    expect(board).toEqual(parseBoard(FULL_PLANNER));
+  });
+
+  it("reports tasks the board cannot place", () => {
+    const input = `- [ ] Before any heading
+
+## Monday, February 9, 2026
+
+- [ ] Fine
+
+## Retro
+
+- [ ] Under an unknown heading
+
+## Backlog
+
+- [ ] Not in a bucket
+
+### Later
+
+- [ ] Unknown bucket first
+
+### Now
+
+### Someday
+`;
+    const { diagnostics } = parseBoardWithDiagnostics(input);
+    expect(diagnostics.map((d) => [d.line, d.severity])).toEqual([
+      [1, "warning"],
+      [9, "warning"],
+      [13, "warning"],
+      [15, "warning"],
+      [17, "warning"],
+      [21, "warning"],
+    ]);
+    expect(diagnostics[1].message).toContain('"## Retro"');
+    expect(diagnostics[3].message).toContain("not shown");
+    expect(diagnostics[5].message).toContain('shown under "Now"');
+  });
+
+  it("reports day headings without a readable date", () => {
+    const { board, diagnostics } = parseBoardWithDiagnostics(
+      "## Monday\n\n## Tuesday, Februar 10, 2026\n",
+    );
+    expect(board.days).toHaveLength(2);
+    expect(board.days[0].date).toBeUndefined();
+    expect(diagnostics).toHaveLength(2);
+    expect(diagnostics[0]).toMatchObject({ line: 1, severity: "warning" });
+    expect(diagnostics[1]).toMatchObject({ line: 3, severity: "warning" });
+  });
+
+  it("reports impossible dates", () => {
+    const input = `## Monday, February 30, 2026
+
+- [ ] Pay rent [2026-02-31]
+- [ ] Fine [2026-02-28]
+`;
+    const { board, diagnostics } = parseBoardWithDiagnostics(input);
+    expect(board.days[0].date).toBeUndefined();
+    expect(board.days[0].cards[0].dueDate).toBe("2026-02-31");
+    expect(diagnostics).toEqual([
+      expect.objectContaining({ line: 1, severity: "error" }),
+      expect.objectContaining({ line: 3, severity: "error", message: "Due date 2026-02-31 does not exist." }),
+    ]);
+  });
+
+  it("reports frontmatter that disagrees with itself", () => {
+    const input = `---
+week: 7
+year: 2026
+startDate: 2026-02-16
+endDate: 2026-02-28
+---
+`;
+    const { diagnostics } = parseBoardWithDiagnostics(input);
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        line: 4,
+        severity: "warning",
+        message: "startDate 2026-02-16 begins week 8 of 2026, but the frontmatter says week 7 of 2026.",
+      }),
+      expect.objectContaining({ line: 5, severity: "warning" }),
+    ]);
+    expect(
+      parseBoardWithDiagnostics("---\nweek: 53\nyear: 2025\nendDate: 2025-13-01\n---\n").diagnostics,
+    ).toEqual([
+      expect.objectContaining({ line: 2, severity: "error", message: "Week 53 does not exist: 2025 has 52 weeks." }),
+      expect.objectContaining({ line: 4, severity: "error" }),
+    ]);
+  });
+
+  it("accepts weeks that start on a day other than Monday", () => {
+    const input = `---
+week: 7
+year: 2026
+startDate: 2026-02-08
+endDate: 2026-02-14
+---
+
+## Sunday, February 8, 2026
+`;
+    expect(parseBoardWithDiagnostics(input).diagnostics).toEqual([]);
+  });
+
+  it("reports day headings outside the week or on the wrong weekday", () => {
+    const input = `---
+week: 7
+year: 2026
+---
+
+## Monday, February 9, 2026
+
+## Tuesday, February 11, 2026
+
+## Friday, February 20, 2026
+`;
+    const { diagnostics } = parseBoardWithDiagnostics(input);
+    expect(diagnostics).toEqual([
+      expect.objectContaining({
+        line: 8,
+        severity: "warning",
+        message: 'Day heading "Tuesday, February 11, 2026" says Tuesday, but 2026-02-11 is a Wednesday.',
+      }),
+      expect.objectContaining({
+        line: 10,
+        severity: "warning",
+        message:
+          "Day heading \"Friday, February 20, 2026\" is dated 2026-02-20, outside this planner's week (2026-02-09 to 2026-02-15).",
+      }),
+    ]);
+  });
+});
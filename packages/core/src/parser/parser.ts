@@ -1,91 +1,124 @@
 import type {
   BoardData,
   Card,
-  TaskStatus,
   DaySection,
   BacklogBucket,
-  BacklogSection,
+  LayoutEntry,
+  ParseDiagnostic,
+  SubTask,
+  PlannerSchema,
+  SectionRef,
 } from "../models/types.js";
+import { resolvePlannerSchema } from "../models/schema.js";
+import { formatIsoDate, isValidIsoDate } from "../utils/dates.js";
+import { parseDayHeading } from "./dayHeading.js";
 import { parseFrontmatter } from "./frontmatter.js";
 import { parseAllMetadata } from "./metadata.js";
+import { createCardIdGenerator } from "./identity.js";
+import { resolveDependencies } from "./dependencies.js";
+import { checkWeek } from "./weekCheck.js";
+import { relativeDateBase } from "./relativeDate.js";
+import { scanVerbatim } from "./verbatim.js";
+import {
+  CHECKBOX_RE,
+  INDENTED_CHECKBOX_RE,
+  checkboxToStatus,
+} from "./tasks.js";
 
-// Day names for detecting day headings
-const DAY_NAMES = [
-  "Monday",
-  "Tuesday",
-  "Wednesday",
-  "Thursday",
-  "Friday",
-  "Saturday",
-  "Sunday",
-] as const;
+type SectionType = "none" | "day" | "backlog" | "long-term";
 
-// Backlog bucket heading → key mapping
-const BACKLOG_BUCKETS: Record<string, BacklogSection> = {
-  now: "now",
-  "next 2 weeks": "next-2-weeks",
-  "this month": "this-month",
-};
-
-type SectionType =
-  | "none"
-  | "day"
-  | "backlog"
-  | "this-quarter"
-  | "this-year"
-  | "parking-lot";
-
-const CHECKBOX_RE = /^- \[([ x/])\] (.+)$/;
-const INDENTED_CHECKBOX_RE = /^\s+- \[([ x/])\] (.+)$/;
-
-function checkboxToStatus(marker: string): TaskStatus {
-  switch (marker) {
-    case "x":
-      return "done";
-    case "/":
-      return "in-progress";
-    default:
-      return "todo";
-  }
+/** Options shared by everything that parses a planner file. */
+export interface ParseOptions {
+  /**
+   * Section vocabulary to use when the file's frontmatter has no `sections:`
+   * key (e.g. from workspace settings). Defaults to DEFAULT_PLANNER_SCHEMA.
+   */
+  schema?: PlannerSchema;
+  /**
+   * BCP 47 locale whose weekday and month names day headings may use, in
+   * addition to English (e.g. "de" for "Montag, 9. Februar 2026"). The
+   * file's frontmatter `locale` key takes precedence.
+   */
+  locale?: string;
+  /**
+   * Only a tag starting with this prefix (e.g. "proj-") is a card's project;
+   * other tags are context tags. Without it, the first tag is the project.
+   */
+  projectPrefix?: string;
+  /** Hours in a `d` of an estimate or logged time (default 8). */
+  hoursPerDay?: number;
+  /**
+   * Today's ISO date. Relative due dates count from it (default: the
+   * machine's date) while it falls in the planner's week, else from the
+   * week's start. Edits also recur undated cards and stamp dates from it.
+   */
+  today?: string;
 }
 
-/** Try to parse an ISO date from a day heading like "Monday, February 5, 2026". */
-function parseDayDate(heading: string): string | undefined {
-  // Extract "Month Day, Year" portion
-  const match = heading.match(
-    /(\w+)\s+(\d{1,2}),?\s+(\d{4})/,
-  );
-  if (!match) return undefined;
-  const [, monthName, dayStr, yearStr] = match;
-  const months: Record<string, number> = {
-    January: 0, February: 1, March: 2, April: 3,
-    May: 4, June: 5, July: 6, August: 7,
-    September: 8, October: 9, November: 10, December: 11,
-  };
-  const monthIndex = months[monthName];
-  if (monthIndex === undefined) return undefined;
-  const d = new Date(Number(yearStr), monthIndex, Number(dayStr));
-  const yyyy = d.getFullYear();
-  const mm = String(d.getMonth() + 1).padStart(2, "0");
-  const dd = String(d.getDate()).padStart(2, "0");
-  return `${yyyy}-${mm}-${dd}`;
+/** Parse a full planner markdown file into BoardData. */
+export function parseBoard(input: string, options: ParseOptions = {}): BoardData {
+  return parseBoardWithDiagnostics(input, options).board;
 }
 
-/** Parse a full planner markdown file into BoardData. */
-export function parseBoard(input: string): BoardData {
+/**
+ * Parse a planner file and report everything that did not make it onto the
+ * board as it was written: tasks outside any board section, unknown backlog
+ * buckets, day headings without a readable date and impossible dates.
+ */
+export function parseBoardWithDiagnostics(
+  input: string,
+  options: ParseOptions = {},
+): {
+  board: BoardData;
+  diagnostics: ParseDiagnostic[];
+} {
+  const diagnostics: ParseDiagnostic[] = [];
   const lines = input.split(/\r?\n/);
 
-  const { frontmatter, bodyStartLine } = parseFrontmatter(lines);
+  const {
+    frontmatter,
+    bodyStartLine,
+    diagnostics: frontmatterDiagnostics,
+  } = parseFrontmatter(lines);
+  diagnostics.push(...frontmatterDiagnostics);
+
+  // Frontmatter `sections:` overrides the caller's (workspace) schema
+  const schema = resolvePlannerSchema(
+    frontmatter?.extra["sections"],
+    options.schema,
+  );
+
+  const frontmatterLocale = frontmatter?.extra["locale"];
+  const locale =
+    typeof frontmatterLocale === "string" ? frontmatterLocale : options.locale;
+  const weekContext = {
+    ...(frontmatter?.startDate ? { startDate: frontmatter.startDate } : {}),
+    ...(frontmatter?.year ? { year: frontmatter.year } : {}),
+  };
+  const metadataOptions = {
+    ...options,
+    relativeTo: relativeDateBase(
+      frontmatter,
+      options.today ?? formatIsoDate(new Date()),
+    ),
+  };
 
   const days: DaySection[] = [];
   const backlog: BacklogBucket[] = [];
-  const thisQuarter: Card[] = [];
-  const thisYear: Card[] = [];
-  const parkingLot: Card[] = [];
+  const longTerm: BacklogBucket[] = [];
+
+  // Frontmatter is kept verbatim; everything after it is recorded line by line
+  const entries: LayoutEntry[] = lines
+    .slice(0, bodyStartLine)
+    .map((text) => ({ kind: "text", text }));
+
+  const nextCardId = createCardIdGenerator();
 
   let sectionType: SectionType = "none";
   let currentDay: DaySection | null = null;
   let currentBucket: BacklogBucket | null = null;
+  // Last ## heading text, for diagnostics about tasks under it
+  let currentHeading: string | null = null;
 
   /** Where to push completed cards. */
   function currentCardTarget(): Card[] | null {
@@ -93,179 +126,321 @@ export function parseBoard(input: string): BoardData {
       case "day":
         return currentDay?.cards ?? null;
       case "backlog":
+      case "long-term":
         return currentBucket?.cards ?? null;
-      case "this-quarter":
-        return thisQuarter;
-      case "this-year":
-        return thisYear;
-      case "parking-lot":
-        return parkingLot;
       default:
         return null;
     }
   }
 
+  /** Layout reference for the card list returned by currentCardTarget(). */
+  function currentSectionRef(): SectionRef | undefined {
+    switch (sectionType) {
+      case "day":
+        return currentDay
+          ? { kind: "day", index: days.indexOf(currentDay) }
+          : undefined;
+      case "backlog":
+        return currentBucket
+          ? { kind: "backlog", index: backlog.indexOf(currentBucket) }
+          : undefined;
+      case "long-term":
+        return currentBucket
+          ? { kind: "long-term", index: longTerm.indexOf(currentBucket) }
+          : undefined;
+      default:
+        return undefined;
+    }
+  }
+
+  /** Why a task line at the current position is not on the board. */
+  function unplacedTaskMessage(): string {
+    if (sectionType === "backlog") {
+      const buckets = schema.backlogBuckets
+        .map((bucket) => `### ${bucket.label}`)
+        .join(", ");
+      return `Task is under "## Backlog" but not in a bucket (${buckets}). It is not shown on the board.`;
+    }
+    if (currentHeading === null) {
+      return "Task is not under any section heading. It is not shown on the board.";
+    }
+    return `Task is under "## ${currentHeading}", which is not a board section. It is not shown on the board.`;
+  }
+
+  function pushText(text: string): void {
+    const section = currentSectionRef();
+    entries.push({ kind: "text", text, ...(section ? { section } : {}) });
+  }
+
   // Current card being built (multi-line collection)
   let pendingCard: Card | null = null;
+  // Open sub-tasks of the pending card, outermost first, with their indent
+  let subTaskStack: { indent: number; subTask: SubTask }[] = [];
+  // Blank lines after a card belong to it only if more indented content follows
+  let pendingBlanks: string[] = [];
 
   function flushCard(): void {
-    if (!pendingCard) return;
-    const target = currentCardTarget();
-    if (target) target.push(pendingCard);
-    pendingCard = null;
+    if (pendingCard) {
+      // Cards are only started when a target exists, so both are defined here
+      currentCardTarget()?.push(pendingCard);
+      entries.push({
+        kind: "card",
+        section: currentSectionRef()!,
+        lineNumber: pendingCard.lineNumber,
+      });
+      pendingCard = null;
+    }
+    for (const blank of pendingBlanks) pushText(blank);
+    pendingBlanks = [];
   }
 
+  // Checklists pasted into code blocks or comments are not tasks
+  const { verbatim } = scanVerbatim(lines, bodyStartLine);
+
   for (let i = bodyStartLine; i < lines.length; i++) {
     const line = lines[i];
     const lineNumber = i + 1; // 1-based
 
+    // --- Content belonging to the current card ---
+    if (pendingCard) {
+      if (line.trim() === "") {
+        pendingBlanks.push(line);
+        continue;
+      }
+      if (/^\s+/.test(line)) {
+        pendingCard.rawBody.push(...pendingBlanks, line);
+        pendingBlanks = [];
+        const subMatch = verbatim[i] ? null : line.match(INDENTED_CHECKBOX_RE);
+        if (subMatch) {
+          const subMeta = parseAllMetadata(subMatch[2], metadataOptions);
+          const subTask: SubTask = {
+            text: subMatch[2],
+            title: subMeta.cleanTitle,
+            rawLine: line,
+            status: checkboxToStatus(subMatch[1]),
+            lineNumber,
+            tags: subMeta.tags,
+            ...(subMeta.project !== undefined ? { project: subMeta.project } : {}),
+            ...(subMeta.dueDate !== undefined ? { dueDate: subMeta.dueDate } : {}),
+            ...(subMeta.relativeDueDate !== undefined
+              ? { relativeDueDate: subMeta.relativeDueDate }
+              : {}),
+            ...(subMeta.priority !== undefined ? { priority: subMeta.priority } : {}),
+            ...(subMeta.timeEstimate !== undefined
+              ? { timeEstimate: subMeta.timeEstimate }
+              : {}),
+            children: [],
+          };
+          // The parent is the nearest sub-task above with less indentation
+          const indent = line.length - line.trimStart().length;
+          while (
+            subTaskStack.length > 0 &&
+            subTaskStack[subTaskStack.length - 1].indent >= indent
+          ) {
+            subTaskStack.pop();
+          }
+          const parent = subTaskStack[subTaskStack.length - 1];
+          (parent ? parent.subTask.children : pendingCard.subTasks).push(subTask);
+          subTaskStack.push({ indent, subTask });
+        } else {
+          pendingCard.body.push(line.trimStart());
+        }
+        continue;
+      }
+      // Non-indented, non-blank line ends the card
+      flushCard();
+    }
+
+    // --- Fences, comments and blockquotes are kept as-is ---
+    if (verbatim[i]) {
+      pushText(line);
+      continue;
+    }
+
     // --- Heading detection ---
     const h2Match = line.match(/^## (.+)$/);
     if (h2Match) {
-      flushCard();
       const heading = h2Match[1].trim();
+      currentDay = null;
+      currentBucket = null;
 
       // Check for day heading
-      const dayName = DAY_NAMES.find((d) => heading.startsWith(d));
-      if (dayName) {
+      const dayHeading = parseDayHeading(heading, weekContext, locale);
+      const lower = heading.toLowerCase();
+      const longTermSection = schema.longTermSections.find(
+        (section) => section.label.toLowerCase() === lower,
+      );
+      currentHeading = heading;
+      if (dayHeading) {
         sectionType = "day";
+        const { dayName, date } = dayHeading;
+        if (date === null) {
+          diagnostics.push({
+            line: lineNumber,
+            severity: "error",
+            message: `Day heading "${heading}" has a date that does not exist.`,
+          });
+        } else if (date === undefined) {
+          diagnostics.push({
+            line: lineNumber,
+            severity: "warning",
+            message: `Could not read a date from day heading "${heading}". Write one (e.g. "${dayName}, February 9, 2026" or "2026-02-09 ${dayName}") or set startDate in the frontmatter.`,
+          });
+        }
         currentDay = {
           heading,
           dayName,
-          date: parseDayDate(heading),
+          ...(date ? { date } : {}),
           cards: [],
           lineNumber,
         };
         days.push(currentDay);
-        currentBucket = null;
-        continue;
-      }
-
-      // Check for named sections
-      const lower = heading.toLowerCase();
-      if (lower === "backlog") {
+      } else if (lower === "backlog") {
         sectionType = "backlog";
-        currentDay = null;
-        currentBucket = null;
-        continue;
-      }
-      if (lower === "this quarter") {
-        sectionType = "this-quarter";
-        currentDay = null;
-        currentBucket = null;
-        continue;
-      }
-      if (lower === "this year") {
-        sectionType = "this-year";
-        currentDay = null;
-        currentBucket = null;
-        continue;
-      }
-      if (lower === "parking lot") {
-        sectionType = "parking-lot";
-        currentDay = null;
-        currentBucket = null;
-        continue;
+      } else if (longTermSection) {
+        sectionType = "long-term";
+        currentBucket = {
+          label: heading,
+          key: longTermSection.key,
+          cards: [],
+          lineNumber,
+        };
+        longTerm.push(currentBucket);
+      } else {
+        // Any other ## exits current section
+        sectionType = "none";
       }
-
-      // Any other ## exits current section
-      sectionType = "none";
-      currentDay = null;
-      currentBucket = null;
+      pushText(line);
       continue;
     }
 
     const h3Match = line.match(/^### (.+)$/);
     if (h3Match && sectionType === "backlog") {
-      flushCard();
       const label = h3Match[1].trim();
-      const key = BACKLOG_BUCKETS[label.toLowerCase()];
-      if (key) {
-        currentBucket = { label, key, cards: [], lineNumber };
+      const bucket = schema.backlogBuckets.find(
+        (b) => b.label.toLowerCase() === label.toLowerCase(),
+      );
+      if (bucket) {
+        currentBucket = { label, key: bucket.key, cards: [], lineNumber };
         backlog.push(currentBucket);
+      } else {
+        diagnostics.push({
+          line: lineNumber,
+          severity: "warning",
+          message: currentBucket
+            ? `Unknown backlog bucket "${label}". Its tasks are shown under "${currentBucket.label}".`
+            : `Unknown backlog bucket "${label}". Its tasks are not shown on the board.`,
+        });
       }
-      continue;
-    }
-
-    // --- Skip bold-only lines ---
-    if (/^\*\*.+\*\*$/.test(line.trim())) {
+      pushText(line);
       continue;
     }
 
     // --- Top-level checkbox (card) ---
     const checkboxMatch = line.match(CHECKBOX_RE);
-    if (checkboxMatch) {
-      flushCard();
+    if (checkboxMatch && currentCardTarget()) {
       const status = checkboxToStatus(checkboxMatch[1]);
       const rawText = checkboxMatch[2];
-      const meta = parseAllMetadata(rawText);
+      const meta = parseAllMetadata(rawText, metadataOptions);
+      if (meta.dueDate !== undefined && !isValidIsoDate(meta.dueDate)) {
+        diagnostics.push({
+          line: lineNumber,
+          severity: "error",
+          message: `Due date ${meta.dueDate} does not exist.`,
+        });
+      }
+      const sectionName =
+        currentDay?.dayName ?? currentBucket?.key ?? sectionType;
 
+      subTaskStack = [];
       pendingCard = {
-        id: `card-${lineNumber}`,
+        id: nextCardId(sectionName, rawText, meta.anchor),
         title: meta.cleanTitle,
         rawLine: line,
         status,
         lineNumber,
         body: [],
+        rawBody: [],
         subTasks: [],
+        tags: meta.tags,
         ...(meta.project !== undefined ? { project: meta.project } : {}),
+        ...(meta.assignees !== undefined
+          ? { assignees: meta.assignees }
+          : {}),
         ...(meta.dueDate !== undefined ? { dueDate: meta.dueDate } : {}),
+        ...(meta.relativeDueDate !== undefined
+          ? { relativeDueDate: meta.relativeDueDate }
+          : {}),
         ...(meta.priority !== undefined ? { priority: meta.priority } : {}),
         ...(meta.timeEstimate !== undefined
           ? { timeEstimate: meta.timeEstimate }
           : {}),
+        ...(meta.timeSpent !== undefined ? { timeSpent: meta.timeSpent } : {}),
+        ...(meta.anchor !== undefined ? { anchor: meta.anchor } : {}),
+        ...(meta.scheduledDate !== undefined
+          ? { scheduledDate: meta.scheduledDate }
+          : {}),
+        ...(meta.startDate !== undefined ? { startDate: meta.startDate } : {}),
+        ...(meta.createdDate !== undefined
+          ? { createdDate: meta.createdDate }
+          : {}),
+        ...(meta.completedDate !== undefined
+          ? { completedDate: meta.completedDate }
+          : {}),
+        ...(meta.startedDate !== undefined
+          ? { startedDate: meta.startedDate }
+          : {}),
+        ...(meta.rolledOver !== undefined
+          ? { rolledOver: meta.rolledOver }
+          : {}),
+        ...(meta.recurrence !== undefined
+          ? { recurrence: meta.recurrence }
+          : {}),
+        ...(meta.dialect !== undefined ? { dialect: meta.dialect } : {}),
+        ...(meta.dependsOn !== undefined
+          ? { dependsOn: meta.dependsOn }
+          : {}),
         ...(sectionType === "day" && currentDay
           ? { day: currentDay.dayName }
           : {}),
-        ...(sectionType === "backlog" && currentBucket
-          ? { section: currentBucket.key }
-          : {}),
-        ...(sectionType === "this-quarter" ? { section: "this-quarter" } : {}),
-        ...(sectionType === "this-year" ? { section: "this-year" } : {}),
-        ...(sectionType === "parking-lot" ? { section: "parking-lot" } : {}),
+        ...(currentBucket ? { section: currentBucket.key } : {}),
       };
       continue;
     }
 
-    // --- Indented content (belongs to current card) ---
-    if (pendingCard && /^\s+/.test(line)) {
-      const subMatch = line.match(INDENTED_CHECKBOX_RE);
-      if (subMatch) {
-        pendingCard.subTasks.push({
-          text: subMatch[2],
-          status: checkboxToStatus(subMatch[1]),
-          lineNumber,
-        });
-      } else if (line.trim().length > 0) {
-        pendingCard.body.push(line.trimStart());
-      }
-      continue;
+    if (checkboxMatch) {
+      diagnostics.push({
+        line: lineNumber,
+        severity: "warning",
+        message: unplacedTaskMessage(),
+      });
     }
 
-    // --- Blank line or non-indented non-checkbox → flush card ---
-    if (pendingCard && !line.match(CHECKBOX_RE)) {
-      // Only flush if line is blank or non-indented
-      if (line.trim() === "") {
-        // Keep collecting — blank lines between indented blocks are OK
-        continue;
-      }
-      flushCard();
-    }
+    // --- Everything else (prose, bold-only lines, blanks) is kept as-is ---
+    pushText(line);
   }
 
   // Flush any trailing card
   flushCard();
 
-  return {
+  const board: BoardData = {
     frontmatter: frontmatter ?? {
       week: 0,
       year: 0,
       tags: [],
+      extra: {},
     },
     days,
     backlog,
-    thisQuarter,
-    thisYear,
-    parkingLot,
+    longTerm,
+    schema,
+    layout: {
+      eol: input.includes("\r\n") ? "\r\n" : "\n",
+      frontmatterLines: bodyStartLine,
+      entries,
+    },
   };
+  resolveDependencies(board, diagnostics);
+  checkWeek(board, lines, diagnostics);
+  return { board, diagnostics };
 }
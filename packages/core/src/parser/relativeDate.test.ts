@@ -0,0 +1,42 @@
+import { describe, it, expect } from "vitest";
+import { relativeDateBase, resolveRelativeDate } from "./relativeDate.js";
+
+describe("relativeDateBase", () => {
+  const week = { week: 7, year: 2026, startDate: "2026-02-09" };
+
+  it("counts from today inside the planner's week", () => {
+    expect(relativeDateBase(week, "2026-02-11")).toBe("2026-02-11");
+  });
+
+  it("counts from the week's start for another week's file", () => {
+    expect(relativeDateBase(week, "2026-03-02")).toBe("2026-02-09");
+    expect(relativeDateBase({ week: 7, year: 2026 }, "2026-03-02")).toBe("2026-02-09");
+  });
+});
+
+describe("resolveRelativeDate", () => {
+  // A Wednesday
+  const base = "2026-02-11";
+
+  it("resolves named days and offsets", () => {
+    expect(resolveRelativeDate("today", base)).toBe("2026-02-11");
+    expect(resolveRelativeDate("tomorrow", base)).toBe("2026-02-12");
+    expect(resolveRelativeDate("+3d", base)).toBe("2026-02-14");
+    expect(resolveRelativeDate("+2w", base)).toBe("2026-02-25");
+  });
+
+  it("resolves weekdays on or after the base", () => {
+    expect(resolveRelativeDate("fri", base)).toBe("2026-02-13");
+    expect(resolveRelativeDate("Wednesday", base)).toBe("2026-02-11");
+    expect(resolveRelativeDate("mon", base)).toBe("2026-02-16");
+  });
+
+  it("resolves week boundaries", () => {
+    expect(resolveRelativeDate("next-week", base)).toBe("2026-02-16");
+    expect(resolveRelativeDate("eow", base)).toBe("2026-02-15");
+  });
+
+  it("rejects anything else", () => {
+    expect(resolveRelativeDate("someday", base)).toBeUndefined();
+  });
+});
@@ -0,0 +1,63 @@
+import type { Frontmatter } from "../models/types.js";
+import { addDays, isoWeekStart, isoWeekday, isValidIsoDate } from "../utils/dates.js";
+
+const WEEKDAY_NAMES = [
+  "monday",
+  "tuesday",
+  "wednesday",
+  "thursday",
+  "friday",
+  "saturday",
+  "sunday",
+];
+
+/**
+ * The date relative due dates count from: `today` while it falls in the
+ * planner's week, otherwise the week's first day. The week starts at the
+ * frontmatter `startDate`, or the Monday of `week`/`year`; without either,
+ * `today` is used.
+ */
+export function relativeDateBase(
+  frontmatter: Pick<Frontmatter, "week" | "year" | "startDate"> | null | undefined,
+  today: string,
+): string {
+  const weekStart =
+    frontmatter?.startDate && isValidIsoDate(frontmatter.startDate)
+      ? frontmatter.startDate
+      : frontmatter?.week && frontmatter.year
+        ? isoWeekStart(frontmatter.year, frontmatter.week)
+        : undefined;
+  if (!weekStart) return today;
+  return today >= weekStart && today <= addDays(weekStart, 6) ? today : weekStart;
+}
+
+/**
+ * Resolve a relative date against `base` (ISO): `today`, `tomorrow`, a
+ * weekday (`fri`, `friday`: the first one on or after `base`), an offset
+ * (`+3d`, `+2w`, `-1d`), `next-week` (the following Monday) or `eow` (the
+ * week's Sunday). Returns undefined for anything else.
+ */
+export function resolveRelativeDate(
+  expression: string,
+  base: string,
+): string | undefined {
+  const expr = expression.toLowerCase();
+  if (expr === "today") return base;
+  if (expr === "tomorrow") return addDays(base, 1);
+  if (expr === "next-week") return addDays(base, 7 - isoWeekday(base));
+  if (expr === "eow") return addDays(base, 6 - isoWeekday(base));
+
+  const offset = expr.match(/^([+-])(\d+)([dw])$/);
+  if (offset) {
+    const days = Number(offset[2]) * (offset[3] === "w" ? 7 : 1);
+    return addDays(base, offset[1] === "-" ? -days : days);
+  }
+
+  const weekday = WEEKDAY_NAMES.findIndex(
+    (day) => day === expr || day.slice(0, 3) === expr,
+  );
+  if (weekday !== -1) {
+    return addDays(base, (weekday - isoWeekday(base) + 7) % 7);
+  }
+  return undefined;
+}
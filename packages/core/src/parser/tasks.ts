@@ -0,0 +1,71 @@
+import type { TaskStatus } from "../models/types.js";
+
+// Every GFM list marker may carry a checkbox: `-`, `*`, `+`, `1.` or `1)`.
+
+/** Top-level task line: `- [ ] text`, `* [ ] text`, `1. [ ] text`. */
+export const CHECKBOX_RE = /^(?:[-*+]|\d{1,9}[.)]) \[([ x/!>-])\] (.+)$/;
+
+/** Indented task line (sub-task): `  - [ ] text`. */
+export const INDENTED_CHECKBOX_RE = /^\s+(?:[-*+]|\d{1,9}[.)]) \[([ x/!>-])\] (.+)$/;
+
+/** The checkbox at the start of any task line; group 1 is its marker. */
+export const CHECKBOX_MARKER_RE = /^\s*(?:[-*+]|\d{1,9}[.)])\s*\[([ x/!>-])\]/;
+
+/** Indentation, list marker and checkbox with the space after it, e.g. `  1. [x] `. */
+export const TASK_PREFIX_RE = /^(\s*(?:[-*+]|\d{1,9}[.)])\s*\[[ x/!>-]\]\s*)/;
+
+/** Leading whitespace and list marker before the checkbox, e.g. `  * `. */
+const CHECKBOX_PREFIX_RE = /^(\s*(?:[-*+]|\d{1,9}[.)])\s*)\[[ x/!>-]\]/;
+
+export function checkboxToStatus(marker: string): TaskStatus {
+  switch (marker) {
+    case "x":
+      return "done";
+    case "/":
+      return "in-progress";
+    case "-":
+      return "cancelled";
+    case "!":
+      return "blocked";
+    case ">":
+      return "deferred";
+    default:
+      return "todo";
+  }
+}
+
+export function statusToCheckbox(status: TaskStatus): string {
+  switch (status) {
+    case "done":
+      return "[x]";
+    case "in-progress":
+      return "[/]";
+    case "cancelled":
+      return "[-]";
+    case "blocked":
+      return "[!]";
+    case "deferred":
+      return "[>]";
+    default:
+      return "[ ]";
+  }
+}
+
+/** Rewrite the checkbox on a task line. Lines without a checkbox are returned unchanged. */
+export function replaceCheckbox(line: string, status: TaskStatus): string {
+  return line.replace(CHECKBOX_PREFIX_RE, `$1${statusToCheckbox(status)}`);
+}
+
+const TASK_STATUSES: readonly string[] = [
+  "todo",
+  "in-progress",
+  "done",
+  "cancelled",
+  "blocked",
+  "deferred",
+];
+
+/** Narrow an untrusted string (e.g. a webview message field) to a TaskStatus. */
+export function isTaskStatus(value: string): value is TaskStatus {
+  return TASK_STATUSES.includes(value);
+}
@@ -0,0 +1,57 @@
+/** Where fenced code blocks, HTML comments and blockquotes are in a file. */
+export interface VerbatimRegions {
+  /** Per line: inside a fence, comment or blockquote, so neither a task nor a heading. */
+  verbatim: boolean[];
+  /** Per line: index of the line opening a fence or comment still open after it, else -1. */
+  openSince: number[];
+}
+
+const FENCE_RE = /^\s*(`{3,}|~{3,})/;
+
+/**
+ * Scan `lines` from `start` for fenced code blocks (``` or ~~~), HTML
+ * comments (`<!-- -->`) and blockquotes (`> `), whose lines are kept as
+ * they are rather than read as tasks or headings.
+ */
+export function scanVerbatim(lines: string[], start = 0): VerbatimRegions {
+  const verbatim = lines.map(() => false);
+  const openSince = lines.map(() => -1);
+  let fence: string | null = null;
+  let inComment = false;
+  let openedAt = -1;
+
+  for (let i = start; i < lines.length; i++) {
+    const line = lines[i];
+    if (fence !== null) {
+      verbatim[i] = true;
+      // A fence closes on a bare run of at least as many of the same character
+      const close = line.trim();
+      if (close.length >= fence.length && close === fence[0].repeat(close.length)) {
+        fence = null;
+      }
+    } else if (inComment) {
+      verbatim[i] = true;
+      if (line.includes("-->")) inComment = false;
+    } else {
+      const fenceMatch = line.match(FENCE_RE);
+      if (fenceMatch) {
+        verbatim[i] = true;
+        fence = fenceMatch[1];
+        openedAt = i;
+      } else if (/^\s*>/.test(line)) {
+        verbatim[i] = true;
+      } else {
+        const opening = line.lastIndexOf("<!--");
+        if (opening !== -1) {
+          verbatim[i] = /^\s*<!--/.test(line);
+          if (!line.includes("-->", opening + 4)) {
+            inComment = true;
+            openedAt = i;
+          }
+        }
+      }
+    }
+    if (fence !== null || inComment) openSince[i] = openedAt;
+  }
+  return { verbatim, openSince };
+}
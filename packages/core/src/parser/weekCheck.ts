@@ -0,0 +1,117 @@
+import type { BoardData, ParseDiagnostic } from "../models/types.js";
+import {
+  addDays,
+  daysBetween,
+  isoWeekNumber,
+  isoWeekStart,
+  isoWeekday,
+  isValidIsoDate,
+  weeksInYear,
+} from "../utils/dates.js";
+import { DAY_NAMES } from "./dayHeading.js";
+
+/** 1-based line of a top-level frontmatter key, or 1 when it can't be found. */
+function keyLine(lines: string[], frontmatterLines: number, key: string): number {
+  const index = lines
+    .slice(0, frontmatterLines)
+    .findIndex((line) => new RegExp(`^${key}\\s*:`).test(line));
+  return index === -1 ? 1 : index + 1;
+}
+
+/**
+ * Check that the frontmatter `week`, `year`, `startDate` and `endDate` and
+ * the dated day headings describe the same week, and report where they
+ * don't. Weeks are ISO weeks unless `startDate` says where the week begins.
+ */
+export function checkWeek(
+  board: BoardData,
+  lines: string[],
+  diagnostics: ParseDiagnostic[],
+): void {
+  const { frontmatter, layout } = board;
+  const line = (key: string) => keyLine(lines, layout.frontmatterLines, key);
+  const { week, year } = frontmatter;
+
+  let weekKnown = week > 0 && year > 0;
+  if (weekKnown && week > weeksInYear(year)) {
+    diagnostics.push({
+      line: line("week"),
+      severity: "error",
+      message: `Week ${week} does not exist: ${year} has ${weeksInYear(year)} weeks.`,
+    });
+    weekKnown = false;
+  }
+
+  const dates: Record<"startDate" | "endDate", string | undefined> = {
+    startDate: undefined,
+    endDate: undefined,
+  };
+  for (const key of ["startDate", "endDate"] as const) {
+    const value = frontmatter[key];
+    if (value === undefined) continue;
+    if (isValidIsoDate(value)) {
+      dates[key] = value;
+    } else {
+      diagnostics.push({
+        line: line(key),
+        severity: "error",
+        message: `${key} "${value}" is not a date. Write it as YYYY-MM-DD.`,
+      });
+    }
+  }
+  const { startDate, endDate } = dates;
+
+  if (startDate && weekKnown) {
+    // The middle of the week decides, so weeks may start on any day
+    const actual = isoWeekNumber(addDays(startDate, 3));
+    if (actual.week !== week || actual.year !== year) {
+      diagnostics.push({
+        line: line("startDate"),
+        severity: "warning",
+        message: `startDate ${startDate} begins week ${actual.week} of ${actual.year}, but the frontmatter says week ${week} of ${year}.`,
+      });
+    }
+  }
+
+  if (endDate && startDate) {
+    const length = daysBetween(startDate, endDate);
+    if (length < 0 || length > 6) {
+      diagnostics.push({
+        line: line("endDate"),
+        severity: "warning",
+        message: `endDate ${endDate} is not within a week of startDate ${startDate}.`,
+      });
+    }
+  } else if (endDate && weekKnown) {
+    const actual = isoWeekNumber(endDate);
+    if (actual.week !== week || actual.year !== year) {
+      diagnostics.push({
+        line: line("endDate"),
+        severity: "warning",
+        message: `endDate ${endDate} is in week ${actual.week} of ${actual.year}, but the frontmatter says week ${week} of ${year}.`,
+      });
+    }
+  }
+
+  const firstDay = startDate ?? (weekKnown ? isoWeekStart(year, week) : undefined);
+  for (const day of board.days) {
+    if (!day.date) continue;
+    const weekday = DAY_NAMES[isoWeekday(day.date)];
+    if (weekday !== day.dayName) {
+      diagnostics.push({
+        line: day.lineNumber,
+        severity: "warning",
+        message: `Day heading "${day.heading}" says ${day.dayName}, but ${day.date} is a ${weekday}.`,
+      });
+    } else if (firstDay) {
+      const offset = daysBetween(firstDay, day.date);
+      if (offset < 0 || offset > 6) {
+        diagnostics.push({
+          line: day.lineNumber,
+          severity: "warning",
+          message: `Day heading "${day.heading}" is dated ${day.date}, outside this planner's week (${firstDay} to ${addDays(firstDay, 6)}).`,
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import { isMap, isNode, isScalar, isSeq, parseDocument } from "yaml";
+import type { Frontmatter } from "../models/types.js";
+import { FRONTMATTER_KEYS, parseFrontmatter } from "../parser/frontmatter.js";
+
+const EMPTY_FRONTMATTER: Frontmatter = { week: 0, year: 0, tags: [], extra: {} };
+
+/** The frontmatter as key → value in the order it should be written. */
+function frontmatterEntries(frontmatter: Frontmatter): Map<string, unknown> {
+  const entries = new Map<string, unknown>([
+    ["week", frontmatter.week],
+    ["year", frontmatter.year],
+    ["tags", frontmatter.tags],
+  ]);
+  if (frontmatter.quarter !== undefined) entries.set("quarter", frontmatter.quarter);
+  if (frontmatter.startDate !== undefined) entries.set("startDate", frontmatter.startDate);
+  if (frontmatter.endDate !== undefined) entries.set("endDate", frontmatter.endDate);
+  for (const [key, value] of Object.entries(frontmatter.extra)) {
+    if (!FRONTMATTER_KEYS.includes(key)) entries.set(key, value);
+  }
+  return entries;
+}
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function sameEntries(a: Map<string, unknown>, b: Map<string, unknown>): boolean {
+  if (a.size !== b.size) return false;
+  for (const [key, value] of a) {
+    if (!b.has(key) || !sameValue(value, b.get(key))) return false;
+  }
+  return true;
+}
+
+/**
+ * Write `frontmatter` back over the file's fenced YAML block `source` (empty
+ * when the file has none). An unchanged block is returned as-is; otherwise
+ * only changed keys are touched, so key order, comments, quoting and list
+ * style survive. New keys are appended and removed keys are deleted.
+ */
+export function formatFrontmatter(
+  source: string[],
+  frontmatter: Frontmatter,
+): string[] {
+  const entries = frontmatterEntries(frontmatter);
+  const current = parseFrontmatter(source).frontmatter;
+  const currentEntries = frontmatterEntries(current ?? EMPTY_FRONTMATTER);
+  if (sameEntries(entries, currentEntries)) return source;
+
+  const doc = parseDocument(current ? source.slice(1, -1).join("\n") : "");
+
+  // No usable block: write a fresh one, with tags kept on one line
+  if (!current || doc.errors.length > 0) {
+    const fresh = parseDocument("");
+    for (const [key, value] of entries) {
+      const node = fresh.createNode(value);
+      if (isSeq(node)) node.flow = true;
+      fresh.set(key, node);
+    }
+    return ["---", ...fresh.toString().trimEnd().split("\n"), "---"];
+  }
+
+  const existingKeys = isMap(doc.contents)
+    ? doc.contents.items.map((pair) =>
+        isNode(pair.key) ? String(pair.key.toJSON()) : String(pair.key),
+      )
+    : [];
+  for (const key of existingKeys) {
+    if (!entries.has(key)) doc.delete(key);
+  }
+
+  // Compare parsed values, so `tags: a, b` is left alone while the tags are unchanged
+  for (const [key, value] of entries) {
+    if (sameValue(currentEntries.get(key), value)) continue;
+    const old = doc.get(key, true);
+    const node = doc.createNode(value);
+    if (isSeq(old) && isSeq(node)) node.flow = old.flow;
+    if (isScalar(old) && isScalar(node)) node.type = old.type;
+    if (isNode(old)) {
+      node.comment = old.comment;
+      node.commentBefore = old.commentBefore;
+    }
+    doc.set(key, node);
+  }
+
+  return ["---", ...doc.toString().trimEnd().split("\n"), "---"];
+}
@@ -0,0 +1,10 @@
+export { serializeBoard } from "./serializer.js";
+export { formatFrontmatter } from "./frontmatter.js";
+export { formatTaskLine } from "./taskLine.js";
+export {
+  defaultWeekTemplate,
+  generateWeekPlanner,
+  renderWeekTemplate,
+  weekPlaceholders,
+} from "./weekPlanner.js";
+export type { TaskLineFields, TaskLineOverrides } from "./taskLine.js";
@@ -0,0 +1,212 @@
+import { describe, it, expect } from "vitest";
+import { parseBoard, parseBoardWithDiagnostics } from "../parser/parser.js";
+import { serializeBoard } from "./serializer.js";
+import { generateWeekPlanner, renderWeekTemplate } from "./weekPlanner.js";
+
+const PLANNER = `---
+week: 7
+year: 2026
+tags: [planner, weekly]
+---
+
+# Week 7 notes
+
+Some free-form prose before the first day.
+
+## Monday, February 9, 2026
+
+**Work**
+- [x] Morning standup #work
+- [ ] Review PRs [2026-02-09] !!
+  - [x] PR #123
+
+  - [ ] PR #456
+  Body note for review task
+
+**Home**
+- [ ] Water plants
+
+## Tuesday, February 10, 2026
+
+## Retro
+
+- [ ] Not a card under an unknown heading
+
+## Backlog
+
+Intro paragraph under the backlog container.
+
+### Now
+
+- [ ] Fix critical bug !!! #core
+
+### Later
+
+- [ ] Unknown bucket falls back to the previous one
+
+## Parking Lot
+
+- [ ] Rewrite in Rust
+`;
+
+describe("serializeBoard", () => {
+  it("round-trips an unmodified planner byte-for-byte", () => {
+    expect(serializeBoard(parseBoard(PLANNER))).toBe(PLANNER);
+  });
+
+  it("preserves CRLF line endings and a missing trailing newline", () => {
+    const input = PLANNER.trimEnd().replace(/\n/g, "\r\n");
+    expect(serializeBoard(parseBoard(input))).toBe(input);
+  });
+
+  it("round-trips a file without frontmatter", () => {
+    const input = "- [ ] Orphan\n\n## Monday, February 2, 2026\n- [ ] A task";
+    expect(serializeBoard(parseBoard(input))).toBe(input);
+  });
+
+  it("writes status changes to the checkbox only", () => {
+    const board = parseBoard(PLANNER);
+    board.days[0].cards[1].status = "in-progress";
+    board.days[0].cards[1].subTasks[1].status = "done";
+
+    const out = serializeBoard(board);
+    expect(out).toContain("- [/] Review PRs [2026-02-09] !!\n");
+    expect(out).toContain("  - [x] PR #456\n");
+    expect(out.split("\n")).toHaveLength(PLANNER.split("\n").length);
+  });
+
+  it("rebuilds the title line when metadata changes", () => {
+    const board = parseBoard(PLANNER);
+    const card = board.days[0].cards[1];
+    card.title = "Review all PRs";
+    card.priority = "high";
+
+    expect(serializeBoard(board)).toContain(
+      "- [ ] Review all PRs [2026-02-09] !!!\n  - [x] PR #123\n",
+    );
+  });
+
+  it("rewrites tags when the project changes", () => {
+    const board = parseBoard("## Monday, February 9, 2026\n- [ ] Call vendor #ops #waiting !\n");
+    board.days[0].cards[0].project = "finance";
+
+    expect(serializeBoard(board)).toContain("- [ ] Call vendor #finance #ops #waiting !\n");
+  });
+
+  it("moves a card with its body to another section", () => {
+    const board = parseBoard(PLANNER);
+    const [card] = board.days[0].cards.splice(1, 1);
+    board.days[1].cards.push(card);
+
+    const out = serializeBoard(board);
+    expect(out).toContain(
+      "- [x] Morning standup #work\n\n**Home**\n- [ ] Water plants",
+    );
+    expect(out).toContain(
+      "## Tuesday, February 10, 2026\n- [ ] Review PRs [2026-02-09] !!\n  - [x] PR #123\n\n  - [ ] PR #456\n  Body note for review task\n\n## Retro",
+    );
+  });
+
+  it("appends new cards after the section's last line", () => {
+    const board = parseBoard(PLANNER);
+    const parkingLot = board.longTerm[0].cards;
+    parkingLot.push({
+      ...parkingLot[0],
+      title: "Learn Zig",
+      rawLine: "",
+      rawBody: [],
+      subTasks: [],
+    });
+
+    expect(serializeBoard(board).endsWith(
+      "- [ ] Rewrite in Rust\n- [ ] Learn Zig\n",
+    )).toBe(true);
+  });
+
+  it("drops removed cards and keeps surrounding prose", () => {
+    const board = parseBoard(PLANNER);
+    board.days[0].cards = [];
+
+    const out = serializeBoard(board);
+    expect(out).toContain(
+      "## Monday, February 9, 2026\n\n**Work**\n\n**Home**\n\n## Tuesday",
+    );
+    expect(out).toContain("- [ ] Not a card under an unknown heading");
+  });
+
+  it("updates frontmatter keeping key order, comments and custom keys", () => {
+    const input = [
+      "---",
+      "# Team planner",
+      "owner: Dana # rotates monthly",
+      "week: 7",
+      "year: 2026",
+      "tags:",
+      "  - planner",
+      "sprint: 14",
+      "---",
+      "",
+      "## Monday, February 9, 2026",
+    ].join("\n");
+    const board = parseBoard(input);
+    board.frontmatter.week = 8;
+    board.frontmatter.tags = ["planner", "review"];
+    board.frontmatter.extra = { ...board.frontmatter.extra, capacity: 30 };
+
+    expect(serializeBoard(board)).toBe(
+      [
+        "---",
+        "# Team planner",
+        "owner: Dana # rotates monthly",
+        "week: 8",
+        "year: 2026",
+        "tags:",
+        "  - planner",
+        "  - review",
+        "sprint: 14",
+        "capacity: 30",
+        "---",
+        "",
+        "## Monday, February 9, 2026",
+      ].join("\n"),
+    );
+  });
+
+  it("adds a frontmatter block to a file without one", () => {
+    const board = parseBoard("## Monday, February 2, 2026\n- [ ] A task\n");
+    board.frontmatter.week = 6;
+    board.frontmatter.year = 2026;
+
+    expect(serializeBoard(board)).toBe(
+      "---\nweek: 6\nyear: 2026\ntags: []\n---\n\n## Monday, February 2, 2026\n- [ ] A task\n",
+    );
+  });
+});
+
+describe("generateWeekPlanner", () => {
+  it("writes a planner the parser reads back without complaint", () => {
+    const text = generateWeekPlanner({ year: 2026, week: 1 });
+    expect(text.startsWith(
+      "---\nweek: 1\nyear: 2026\ntags: [planner, weekly]\nquarter: Q1\nstartDate: 2025-12-29\nendDate: 2026-01-04\n---\n\n## Monday, December 29, 2025\n",
+    )).toBe(true);
+
+    const { board, diagnostics } = parseBoardWithDiagnostics(text);
+    expect(diagnostics).toEqual([]);
+    expect(board.days.map((d) => d.date)).toEqual([
+      "2025-12-29",
+      "2025-12-30",
+      "2025-12-31",
+      "2026-01-01",
+      "2026-01-02",
+    ]);
+    expect(board.backlog.map((b) => b.key)).toEqual(["now", "next-2-weeks", "this-month"]);
+    expect(board.longTerm.map((s) => s.key)).toEqual(["this-quarter", "this-year", "parking-lot"]);
+  });
+
+  it("fills in a template's placeholders", () => {
+    const template = "# {year}-W{WW} ({quarter})\n\n## {sunday}\n\nDue {fridayDate}. Keep {unknown}.\n";
+    expect(renderWeekTemplate(template, { year: 2026, week: 7 })).toBe(
+      "# 2026-W07 (Q1)\n\n## Sunday, February 15, 2026\n\nDue 2026-02-13. Keep {unknown}.\n",
+    );
+  });
+});
@@ -0,0 +1,137 @@
+import type { BoardData, Card, SectionRef } from "../models/types.js";
+import { allSubTasks } from "../models/types.js";
+import { parseAllMetadata } from "../parser/metadata.js";
+import { CHECKBOX_RE, replaceCheckbox } from "../parser/tasks.js";
+import { formatFrontmatter } from "./frontmatter.js";
+import { formatTaskLine } from "./taskLine.js";
+
+function sectionKey(ref: SectionRef): string {
+  return `${ref.kind}:${ref.index}`;
+}
+
+function sectionCards(board: BoardData, ref: SectionRef): Card[] {
+  switch (ref.kind) {
+    case "day":
+      return board.days[ref.index]?.cards ?? [];
+    case "backlog":
+      return board.backlog[ref.index]?.cards ?? [];
+    case "long-term":
+      return board.longTerm[ref.index]?.cards ?? [];
+  }
+}
+
+/**
+ * The card's title line. An untouched line is kept byte-for-byte (apart from
+ * the checkbox); edited metadata rebuilds it in normalized order.
+ */
+function formatTitleLine(card: Card): string {
+  const match = card.rawLine.match(CHECKBOX_RE);
+  if (match) {
+    const meta = parseAllMetadata(match[2]);
+    // The project is one of the tags; which one depends on the parse options
+    const unchanged =
+      meta.cleanTitle === card.title &&
+      meta.tags.join(" ") === card.tags.join(" ") &&
+      (card.project === undefined || card.tags.includes(card.project)) &&
+      meta.assignees?.join(" ") === card.assignees?.join(" ") &&
+      // A relative due date resolves differently from day to day
+      (card.relativeDueDate !== undefined
+        ? meta.relativeDueDate === card.relativeDueDate
+        : meta.dueDate === card.dueDate) &&
+      meta.priority === card.priority &&
+      meta.timeEstimate?.text === card.timeEstimate?.text &&
+      meta.timeSpent?.text === card.timeSpent?.text &&
+      meta.anchor === card.anchor &&
+      meta.scheduledDate === card.scheduledDate &&
+      meta.startDate === card.startDate &&
+      meta.createdDate === card.createdDate &&
+      meta.completedDate === card.completedDate &&
+      meta.startedDate === card.startedDate &&
+      meta.rolledOver === card.rolledOver &&
+      meta.recurrence?.text === card.recurrence?.text &&
+      meta.dependsOn?.join(",") === card.dependsOn?.join(",");
+    if (unchanged) return replaceCheckbox(card.rawLine, card.status);
+  }
+  return replaceCheckbox(formatTaskLine(card), card.status);
+}
+
+/** The card's verbatim body, with sub-task checkboxes synced to their status. */
+function formatBody(card: Card): string[] {
+  const body = [...card.rawBody];
+  for (const subTask of allSubTasks(card.subTasks)) {
+    const index = subTask.lineNumber - card.lineNumber - 1;
+    if (index >= 0 && index < body.length) {
+      body[index] = replaceCheckbox(body[index], subTask.status);
+    }
+  }
+  return body;
+}
+
+function formatCard(card: Card): string[] {
+  return [formatTitleLine(card), ...formatBody(card)];
+}
+
+/** The frontmatter block, rewritten only when `board.frontmatter` changed. */
+function formatHead(board: BoardData): string[] {
+  const source = board.layout.entries
+    .slice(0, board.layout.frontmatterLines)
+    .map((entry) => (entry.kind === "text" ? entry.text : ""));
+  const head = formatFrontmatter(source, board.frontmatter);
+  // A newly added block gets a blank line before the body
+  return source.length === 0 && head.length > 0 ? [...head, ""] : head;
+}
+
+/**
+ * Write BoardData back to planner markdown.
+ *
+ * Non-card lines come from `board.layout` verbatim, so an unmodified board
+ * round-trips byte-for-byte. Cards that are still in their original section
+ * keep their place; new or moved-in cards are appended after the section's
+ * last non-blank line, and cards that were removed are simply not written.
+ * Frontmatter is only re-emitted when it changed, keeping its comments.
+ */
+export function serializeBoard(board: BoardData): string {
+  const { eol, entries, frontmatterLines } = board.layout;
+
+  // Index of the entry after which a section's surplus cards are written
+  const appendAfter = new Map<string, number>();
+  entries.forEach((entry, i) => {
+    if (!entry.section) return;
+    if (entry.kind === "card" || entry.text.trim() !== "") {
+      appendAfter.set(sectionKey(entry.section), i);
+    }
+  });
+
+  // Cards not yet written, per section
+  const queues = new Map<string, Card[]>();
+  function queueFor(ref: SectionRef): Card[] {
+    const key = sectionKey(ref);
+    let queue = queues.get(key);
+    if (!queue) {
+      queue = [...sectionCards(board, ref)];
+      queues.set(key, queue);
+    }
+    return queue;
+  }
+
+  const out: string[] = formatHead(board);
+  entries.forEach((entry, i) => {
+    if (i < frontmatterLines) return;
+    if (entry.kind === "text") {
+      out.push(entry.text);
+    } else {
+      // The card is written in its original place while it stays in its section
+      const queue = queueFor(entry.section);
+      const index = queue.findIndex((c) => c.lineNumber === entry.lineNumber);
+      if (index !== -1) out.push(...formatCard(queue.splice(index, 1)[0]));
+    }
+
+    if (entry.section && appendAfter.get(sectionKey(entry.section)) === i) {
+      for (const card of queueFor(entry.section).splice(0)) {
+        out.push(...formatCard(card));
+      }
+    }
+  });
+
+  return out.join(eol);
+}
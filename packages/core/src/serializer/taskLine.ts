@@ -0,0 +1,147 @@
+import type { Card, Duration, Priority } from "../models/types.js";
+import { TASK_PREFIX_RE } from "../parser/tasks.js";
+
+/** Card fields that make up a task line. */
+export type TaskLineFields = Pick<
+  Card,
+  | "rawLine"
+  | "title"
+  | "tags"
+  | "project"
+  | "assignees"
+  | "dueDate"
+  | "relativeDueDate"
+  | "priority"
+  | "timeEstimate"
+  | "timeSpent"
+  | "anchor"
+  | "scheduledDate"
+  | "startDate"
+  | "createdDate"
+  | "completedDate"
+  | "startedDate"
+  | "rolledOver"
+  | "recurrence"
+  | "dialect"
+  | "dependsOn"
+>;
+
+/** Replacement values for a rebuilt task line. `null` removes the field. */
+export interface TaskLineOverrides {
+  title?: string;
+  tags?: string[];
+  project?: string;
+  assignees?: string[];
+  dueDate?: string | null;
+  priority?: Priority | null;
+  timeEstimate?: Duration | null;
+  timeSpent?: Duration | null;
+  completedDate?: string | null;
+  startedDate?: string | null;
+  rolledOver?: number | null;
+}
+
+const PRIORITY_MARKERS: Record<Priority, string> = {
+  high: "!!!",
+  medium: "!!",
+  low: "!",
+};
+
+const OBSIDIAN_PRIORITY_MARKERS: Record<Priority, string> = {
+  high: "⏫",
+  medium: "🔼",
+  low: "🔽",
+};
+
+/**
+ * Reconstruct a task line from card fields + optional overrides.
+ * Keeps the indentation, list marker and checkbox of `rawLine` and
+ * normalizes metadata order:
+ * title #tags @people [date] !!! est:Xh spent:Xh every:rule started:D done:D rolled:N after:^a ^anchor
+ * A relative due date (`due:tomorrow`) is written back as it was, in the
+ * date's place, unless `overrides.dueDate` replaces it.
+ * A line in the Obsidian Tasks dialect keeps it, with the emoji fields last
+ * as that plugin expects:
+ * title #tags @people est:Xh spent:Xh started:D rolled:N after:^a ⏫ 🔁 rule ➕ date 🛫 date ⏳ date 📅 date ✅ date ^anchor
+ */
+export function formatTaskLine(
+  card: TaskLineFields,
+  overrides: TaskLineOverrides = {},
+): string {
+  // Extract leading whitespace + list marker + checkbox from rawLine
+  const prefixMatch = card.rawLine.match(TASK_PREFIX_RE);
+  const prefix = prefixMatch ? prefixMatch[1] : "- [ ] ";
+
+  const title = overrides.title !== undefined ? overrides.title : card.title;
+  const project =
+    overrides.project !== undefined ? overrides.project : card.project;
+  const tags = [...(overrides.tags ?? card.tags)];
+  // A new project takes the old project tag's place, or leads the tags
+  if (project && !tags.includes(project)) {
+    const index = card.project ? tags.indexOf(card.project) : -1;
+    if (index !== -1) tags[index] = project;
+    else tags.unshift(project);
+  }
+  const dueDate =
+    overrides.dueDate !== undefined ? overrides.dueDate : card.dueDate;
+  // A relative due date stays relative until the date itself is edited
+  const relativeDueDate =
+    overrides.dueDate !== undefined ? undefined : card.relativeDueDate;
+  const priority =
+    overrides.priority !== undefined ? overrides.priority : card.priority;
+  const timeEstimate =
+    overrides.timeEstimate !== undefined
+      ? overrides.timeEstimate
+      : card.timeEstimate;
+  const timeSpent =
+    overrides.timeSpent !== undefined ? overrides.timeSpent : card.timeSpent;
+  const completedDate =
+    overrides.completedDate !== undefined
+      ? overrides.completedDate
+      : card.completedDate;
+  const startedDate =
+    overrides.startedDate !== undefined
+      ? overrides.startedDate
+      : card.startedDate;
+  const rolledOver =
+    overrides.rolledOver !== undefined ? overrides.rolledOver : card.rolledOver;
+
+  let line = prefix + title;
+  for (const tag of tags) line += ` #${tag}`;
+  for (const handle of overrides.assignees ?? card.assignees ?? []) {
+    line += ` @${handle}`;
+  }
+  const after = card.dependsOn?.length
+    ? ` after:${card.dependsOn.map((a) => `^${a}`).join(",")}`
+    : "";
+  if (card.dialect === "obsidian") {
+    if (timeEstimate) line += ` est:${timeEstimate.text}`;
+    if (timeSpent) line += ` spent:${timeSpent.text}`;
+    if (startedDate) line += ` started:${startedDate}`;
+    if (rolledOver) line += ` rolled:${rolledOver}`;
+    line += after;
+    if (priority) line += ` ${OBSIDIAN_PRIORITY_MARKERS[priority]}`;
+    if (card.recurrence) line += ` 🔁 every ${card.recurrence.text}`;
+    if (card.createdDate) line += ` ➕ ${card.createdDate}`;
+    if (card.startDate) line += ` 🛫 ${card.startDate}`;
+    if (card.scheduledDate) line += ` ⏳ ${card.scheduledDate}`;
+    if (relativeDueDate) line += ` due:${relativeDueDate}`;
+    else if (dueDate) line += ` 📅 ${dueDate}`;
+    if (completedDate) line += ` ✅ ${completedDate}`;
+  } else {
+    if (relativeDueDate) line += ` due:${relativeDueDate}`;
+    else if (dueDate) line += ` [${dueDate}]`;
+    if (priority) line += ` ${PRIORITY_MARKERS[priority]}`;
+    if (timeEstimate) line += ` est:${timeEstimate.text}`;
+    if (timeSpent) line += ` spent:${timeSpent.text}`;
+    if (card.recurrence) line += ` every:${card.recurrence.text}`;
+    if (startedDate) line += ` started:${startedDate}`;
+    if (completedDate) line += ` done:${completedDate}`;
+    if (rolledOver) line += ` rolled:${rolledOver}`;
+    line += after;
+  }
+  // The anchor is the card's identity, so it always survives a rebuild
+  if (card.anchor) line += ` ^${card.anchor}`;
+
+  return line;
+}
@@ -0,0 +1,75 @@
+import type { PlannerSchema } from "../models/types.js";
+import { DEFAULT_PLANNER_SCHEMA } from "../models/schema.js";
+import type { PlannerWeek } from "../models/week.js";
+import { DAY_NAMES, formatDayHeading } from "../parser/dayHeading.js";
+import { addDays, isoWeekStart } from "../utils/dates.js";
+
+/**
+ * The values a week template's `{placeholders}` stand for: `year`, `week`,
+ * `WW` (week padded to two digits), `quarter` (`Q1`), `startDate` and
+ * `endDate`, and for each day `monday` (its heading, "Monday, February 9,
+ * 2026") and `mondayDate` (its ISO date).
+ */
+export function weekPlaceholders({ year, week }: PlannerWeek): Record<string, string> {
+  const startDate = isoWeekStart(year, week);
+  // Like the week's year, its quarter is the one its Thursday falls in
+  const quarter = Math.ceil(Number(addDays(startDate, 3).slice(5, 7)) / 3);
+  const values: Record<string, string> = {
+    year: String(year),
+    week: String(week),
+    WW: String(week).padStart(2, "0"),
+    quarter: `Q${quarter}`,
+    startDate,
+    endDate: addDays(startDate, 6),
+  };
+  DAY_NAMES.forEach((name, i) => {
+    const date = addDays(startDate, i);
+    values[name.toLowerCase()] = formatDayHeading(date);
+    values[`${name.toLowerCase()}Date`] = date;
+  });
+  return values;
+}
+
+/** Fill in a week template's placeholders; unknown ones are left as written. */
+export function renderWeekTemplate(template: string, week: PlannerWeek): string {
+  const values = weekPlaceholders(week);
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    Object.hasOwn(values, name) ? values[name] : placeholder,
+  );
+}
+
+/**
+ * The template new planners get when there is no template file: frontmatter,
+ * headings for Monday to Friday, the backlog buckets and the long-term
+ * sections of `schema`.
+ */
+export function defaultWeekTemplate(
+  schema: PlannerSchema = DEFAULT_PLANNER_SCHEMA,
+): string {
+  const lines = [
+    "---",
+    "week: {week}",
+    "year: {year}",
+    "tags: [planner, weekly]",
+    "quarter: {quarter}",
+    "startDate: {startDate}",
+    "endDate: {endDate}",
+    "---",
+  ];
+  for (const day of ["monday", "tuesday", "wednesday", "thursday", "friday"]) {
+    lines.push("", `## {${day}}`);
+  }
+  lines.push("", "## Backlog");
+  for (const bucket of schema.backlogBuckets) lines.push("", `### ${bucket.label}`);
+  for (const section of schema.longTermSections) lines.push("", `## ${section.label}`);
+  return lines.join("\n") + "\n";
+}
+
+/** A new, empty planner for `week`, from `template` or the default template. */
+export function generateWeekPlanner(
+  week: PlannerWeek,
+  schema: PlannerSchema = DEFAULT_PLANNER_SCHEMA,
+  template: string = defaultWeekTemplate(schema),
+): string {
+  return renderWeekTemplate(template, week);
+}
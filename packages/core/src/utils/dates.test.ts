@@ -0,0 +1,41 @@
+import { describe, it, expect } from "vitest";
+import {
+  daysBetween,
+  isoWeekNumber,
+  isoWeekStart,
+  parseIsoDate,
+  weekEnd,
+  weekStart,
+  weeksInYear,
+} from "./dates.js";
+
+describe("dates", () => {
+  it("parses ISO dates as local days", () => {
+    const date = parseIsoDate("2026-02-09");
+    expect([date.getFullYear(), date.getMonth(), date.getDate()]).toEqual([2026, 1, 9]);
+  });
+
+  it("counts days across month, year and DST boundaries", () => {
+    expect(daysBetween("2026-02-09", "2026-02-13")).toBe(4);
+    expect(daysBetween("2026-02-13", "2026-02-09")).toBe(-4);
+    expect(daysBetween("2025-12-30", "2026-01-02")).toBe(3);
+    expect(daysBetween("2026-03-07", "2026-03-09")).toBe(2);
+  });
+
+  it("numbers ISO weeks, including those that cross New Year", () => {
+    expect(isoWeekNumber("2026-02-09")).toEqual({ year: 2026, week: 7 });
+    expect(isoWeekNumber("2025-12-29")).toEqual({ year: 2026, week: 1 });
+    expect(isoWeekNumber("2027-01-01")).toEqual({ year: 2026, week: 53 });
+    expect(weeksInYear(2026)).toBe(53);
+    expect(weeksInYear(2025)).toBe(52);
+    expect(isoWeekStart(2026, 7)).toBe("2026-02-09");
+  });
+
+  it("finds week bounds for any first weekday", () => {
+    expect(weekStart("2026-02-11")).toBe("2026-02-09");
+    expect(weekEnd("2026-02-11")).toBe("2026-02-15");
+    // Weeks starting on Sunday
+    expect(weekStart("2026-02-11", 6)).toBe("2026-02-08");
+    expect(weekEnd("2026-02-08", 6)).toBe("2026-02-14");
+  });
+});
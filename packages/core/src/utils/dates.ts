@@ -0,0 +1,111 @@
+/** Format a local Date as `YYYY-MM-DD`. */
+export function formatIsoDate(d: Date): string {
+  const yyyy = d.getFullYear();
+  const mm = String(d.getMonth() + 1).padStart(2, "0");
+  const dd = String(d.getDate()).padStart(2, "0");
+  return `${yyyy}-${mm}-${dd}`;
+}
+
+/** Build an ISO date from parts, or undefined for impossible dates like February 31. */
+export function isoDateFromParts(
+  year: number,
+  monthIndex: number,
+  day: number,
+): string | undefined {
+  const d = new Date(year, monthIndex, day);
+  if (
+    d.getFullYear() !== year ||
+    d.getMonth() !== monthIndex ||
+    d.getDate() !== day
+  ) {
+    return undefined;
+  }
+  return formatIsoDate(d);
+}
+
+/** True for a well-formed `YYYY-MM-DD` string naming a real calendar day. */
+export function isValidIsoDate(value: string): boolean {
+  const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (!match) return false;
+  return (
+    isoDateFromParts(Number(match[1]), Number(match[2]) - 1, Number(match[3])) !==
+    undefined
+  );
+}
+
+function partsOf(iso: string): [number, number, number] {
+  const [year, month, day] = iso.split("-").map(Number);
+  return [year, month - 1, day];
+}
+
+/** The ISO date `days` after (or before, if negative) `iso`. */
+export function addDays(iso: string, days: number): string {
+  const [year, monthIndex, day] = partsOf(iso);
+  return formatIsoDate(new Date(year, monthIndex, day + days));
+}
+
+/** The same day `months` later, clamped to the month's last day (Jan 31 → Feb 28). */
+export function addMonths(iso: string, months: number): string {
+  const [year, monthIndex, day] = partsOf(iso);
+  const lastDay = new Date(year, monthIndex + months + 1, 0).getDate();
+  return formatIsoDate(new Date(year, monthIndex + months, Math.min(day, lastDay)));
+}
+
+/** The Monday of ISO week `week` of `year`. */
+export function isoWeekStart(year: number, week: number): string {
+  // January 4th is always in week 1
+  const jan4 = formatIsoDate(new Date(year, 0, 4));
+  return addDays(jan4, (week - 1) * 7 - isoWeekday(jan4));
+}
+
+/** Day of the week of an ISO date, 0 = Monday … 6 = Sunday. */
+export function isoWeekday(iso: string): number {
+  const [year, monthIndex, day] = partsOf(iso);
+  return (new Date(year, monthIndex, day).getDay() + 6) % 7;
+}
+
+/**
+ * The local midnight of an ISO date. `new Date("2026-02-09")` is UTC
+ * midnight, which is still the 8th in timezones west of UTC.
+ */
+export function parseIsoDate(iso: string): Date {
+  const [year, monthIndex, day] = partsOf(iso);
+  return new Date(year, monthIndex, day);
+}
+
+/** Whole days from `from` to `to` (negative when `to` is earlier), ignoring DST shifts. */
+export function daysBetween(from: string, to: string): number {
+  const [fromYear, fromMonth, fromDay] = partsOf(from);
+  const [toYear, toMonth, toDay] = partsOf(to);
+  return Math.round(
+    (Date.UTC(toYear, toMonth, toDay) - Date.UTC(fromYear, fromMonth, fromDay)) /
+      86_400_000,
+  );
+}
+
+/** ISO 8601 week of a date; early January and late December may belong to a neighboring year. */
+export function isoWeekNumber(iso: string): { year: number; week: number } {
+  // A week belongs to the year its Thursday is in
+  const thursday = addDays(iso, 3 - isoWeekday(iso));
+  const year = Number(thursday.slice(0, 4));
+  return {
+    year,
+    week: Math.floor(daysBetween(`${year}-01-01`, thursday) / 7) + 1,
+  };
+}
+
+/** How many ISO weeks `year` has: 52, or 53 in long years. */
+export function weeksInYear(year: number): number {
+  // December 28th is always in the year's last week
+  return isoWeekNumber(`${year}-12-28`).week;
+}
+
+/** First day of the week containing `iso`, for weeks starting on `firstWeekday` (0 = Monday … 6 = Sunday). */
+export function weekStart(iso: string, firstWeekday = 0): string {
+  return addDays(iso, -((isoWeekday(iso) - firstWeekday + 7) % 7));
+}
+
+/** Last day of the week containing `iso`, for weeks starting on `firstWeekday`. */
+export function weekEnd(iso: string, firstWeekday = 0): string {
+  return addDays(weekStart(iso, firstWeekday), 6);
+}
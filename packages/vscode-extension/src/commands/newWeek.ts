@@ -0,0 +1,67 @@
+import * as vscode from "vscode";
+import {
+  addWeeks,
+  formatIsoDate,
+  formatPlannerWeek,
+  isoWeekNumber,
+  parseBoard,
+  parsePlannerWeek,
+  plannerWeek,
+} from "@hexfield-deck/core";
+import type { PlannerWeek } from "@hexfield-deck/core";
+import { workspaceParseOptions } from "../settings.js";
+import { BoardWebviewPanel } from "../webview/BoardWebviewPanel.js";
+import { fileExists, newWeekPlannerText, weekFileUri } from "../weekFiles.js";
+
+/** The week after the planner in the active editor, or else this week. */
+function suggestedWeek(editor: vscode.TextEditor | undefined): PlannerWeek {
+  const today = isoWeekNumber(formatIsoDate(new Date()));
+  if (editor?.document.languageId !== "markdown") return today;
+  const current = plannerWeek(parseBoard(editor.document.getText()).frontmatter);
+  return current ? addWeeks(current, 1) : today;
+}
+
+/**
+ * Create the planner file for an ISO week the user picks, from the week
+ * template, and open it on the board. A week whose file already exists is
+ * just opened.
+ */
+export async function newWeek(context: vscode.ExtensionContext): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  const suggested = suggestedWeek(editor);
+  const input = await vscode.window.showInputBox({
+    value: formatPlannerWeek(suggested),
+    prompt: "Week to create (e.g. 2026-W08, 8, +1)",
+    placeHolder: "YYYY-Www",
+    validateInput: (val) =>
+      parsePlannerWeek(val, suggested)
+        ? undefined
+        : "Enter a week as YYYY-Www, a week number, or +N weeks",
+  });
+  if (input === undefined) return;
+  const week = parsePlannerWeek(input, suggested);
+  if (!week) return;
+
+  const scope = editor?.document.uri;
+  const uri = weekFileUri(scope, week);
+  if (!uri) {
+    vscode.window.showErrorMessage(
+      "Hexfield Deck: Set hexfield-deck.weekFilePattern, and open the planner folder as a workspace (or set an absolute hexfield-deck.plannerRoot), to create week files.",
+    );
+    return;
+  }
+
+  if (!(await fileExists(uri))) {
+    const text = await newWeekPlannerText(scope, week, workspaceParseOptions().schema);
+    if (text === undefined) return;
+    await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(text));
+  }
+
+  const document = await vscode.workspace.openTextDocument(uri);
+  await vscode.window.showTextDocument(document, { preview: false });
+  BoardWebviewPanel.createOrShow(
+    context.extensionUri,
+    context.workspaceState,
+    document,
+  );
+}
@@ -38,5 +38,9 @@ export async function openBoard(
     return;
   }
 
-  BoardWebviewPanel.createOrShow(context.extensionUri, document);
+  BoardWebviewPanel.createOrShow(
+    context.extensionUri,
+    context.workspaceState,
+    document,
+  );
 }
@@ -0,0 +1,52 @@
+import * as vscode from "vscode";
+import { weekFileGlob } from "@hexfield-deck/core";
+import { BoardWebviewPanel } from "../webview/BoardWebviewPanel.js";
+import { plannerRootUri } from "../weekFiles.js";
+
+/**
+ * Show the planner files in a folder, or those matching a glob, on one
+ * board. From the explorer the folder is the one clicked; from the command
+ * palette the user types a glob under the planner root, which starts out
+ * as one matching every file of `hexfield-deck.weekFilePattern`.
+ */
+export async function openCombinedBoard(
+  context: vscode.ExtensionContext,
+  folder?: vscode.Uri,
+): Promise<void> {
+  let pattern: vscode.RelativePattern;
+  let label: string;
+
+  if (folder) {
+    // Called from the explorer's context menu on a folder
+    pattern = new vscode.RelativePattern(folder, "**/*.md");
+    label = vscode.workspace.asRelativePath(folder);
+  } else {
+    const root = plannerRootUri(vscode.window.activeTextEditor?.document.uri);
+    if (!root) {
+      vscode.window.showWarningMessage(
+        "Hexfield Deck: Open the planner folder as a workspace (or set an absolute hexfield-deck.plannerRoot) to combine planner files.",
+      );
+      return;
+    }
+
+    const weekFilePattern = vscode.workspace
+      .getConfiguration("hexfield-deck")
+      .get<string>("weekFilePattern", "");
+    const glob = await vscode.window.showInputBox({
+      value: weekFilePattern ? weekFileGlob(weekFilePattern) : "**/*.md",
+      prompt: "Planner files to combine, as a glob under the planner root (e.g. 2026/week-{01,02,03}/*.md)",
+      placeHolder: "**/*.md",
+      validateInput: (val) => (val.trim() ? undefined : "Enter a glob"),
+    });
+    if (!glob?.trim()) return;
+    pattern = new vscode.RelativePattern(root, glob.trim());
+    label = glob.trim();
+  }
+
+  BoardWebviewPanel.showCombined(
+    context.extensionUri,
+    context.workspaceState,
+    pattern,
+    label,
+  );
+}
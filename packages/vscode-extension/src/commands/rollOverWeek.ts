@@ -0,0 +1,106 @@
+import * as vscode from "vscode";
+import {
+  addWeeks,
+  formatPlannerWeek,
+  parseBoard,
+  plannerWeek,
+  rollOverWeek as rollOver,
+  rolloverCards,
+  EditError,
+} from "@hexfield-deck/core";
+import type { FileMoveEdits } from "@hexfield-deck/core";
+import { workspaceParseOptions } from "../settings.js";
+import { BoardWebviewPanel } from "../webview/BoardWebviewPanel.js";
+import { fileMoveEdit, loadWeekPlanner, weekFileUri } from "../weekFiles.js";
+
+/**
+ * Carry the unfinished cards of the planner in the active editor into next
+ * week's file, after showing them for the user to confirm or deselect.
+ * The cards stay behind marked deferred.
+ */
+export async function rollOverWeek(context: vscode.ExtensionContext): Promise<void> {
+  const document = vscode.window.activeTextEditor?.document;
+  if (!document || document.languageId !== "markdown") {
+    vscode.window.showWarningMessage(
+      "Hexfield Deck: Open the week's planner file to roll it over.",
+    );
+    return;
+  }
+
+  const options = workspaceParseOptions();
+  const board = parseBoard(document.getText(), options);
+  const current = plannerWeek(board.frontmatter);
+  if (!current) {
+    vscode.window.showErrorMessage(
+      "Hexfield Deck: This planner's frontmatter has no week and year, so there is no next week to roll over to.",
+    );
+    return;
+  }
+  const cards = rolloverCards(board);
+  if (cards.length === 0) {
+    vscode.window.showInformationMessage("Hexfield Deck: Nothing left to roll over this week.");
+    return;
+  }
+
+  const week = addWeeks(current, 1);
+  const uri = weekFileUri(document.uri, week);
+  if (!uri) {
+    vscode.window.showErrorMessage(
+      "Hexfield Deck: Set hexfield-deck.weekFilePattern, and open the planner folder as a workspace (or set an absolute hexfield-deck.plannerRoot), to roll over weeks.",
+    );
+    return;
+  }
+
+  // The preview: every unfinished card, picked unless the user drops it
+  const sectionLabels = new Map(board.backlog.map((b) => [b.key, b.label]));
+  const picked = await vscode.window.showQuickPick(
+    cards.map((card) => ({
+      label: card.title,
+      description: card.day ?? sectionLabels.get(card.section ?? ""),
+      detail: card.rolledOver ? `Rolled over ${card.rolledOver}×` : undefined,
+      picked: true,
+      cardId: card.id,
+    })),
+    {
+      canPickMany: true,
+      title: `Roll over to ${formatPlannerWeek(week)} (${vscode.workspace.asRelativePath(uri)})`,
+      placeHolder: "Unfinished cards to carry into next week",
+    },
+  );
+  if (!picked || picked.length === 0) return;
+
+  const target = await loadWeekPlanner(uri, week, options.schema);
+  if (!target) return;
+
+  let moved: FileMoveEdits;
+  try {
+    moved = rollOver(document.getText(), target.text, {
+      ...options,
+      cardIds: picked.map((item) => item.cardId),
+      countRollovers: vscode.workspace
+        .getConfiguration("hexfield-deck")
+        .get<boolean>("countRollovers", false),
+    });
+  } catch (error) {
+    if (error instanceof EditError) {
+      vscode.window.showErrorMessage(error.message);
+      return;
+    }
+    throw error;
+  }
+
+  if (!(await vscode.workspace.applyEdit(fileMoveEdit(document.uri, target, moved)))) {
+    return;
+  }
+  const open = await vscode.window.showInformationMessage(
+    `Hexfield Deck: Rolled ${picked.length} card${picked.length === 1 ? "" : "s"} over to ${formatPlannerWeek(week)}.`,
+    "Open Next Week",
+  );
+  if (open === "Open Next Week") {
+    BoardWebviewPanel.createOrShow(
+      context.extensionUri,
+      context.workspaceState,
+      await vscode.workspace.openTextDocument(uri),
+    );
+  }
+}
@@ -0,0 +1,23 @@
+import * as vscode from "vscode";
+import type { DiagnosticSeverity, ParseDiagnostic } from "@hexfield-deck/core";
+
+const SEVERITIES: Record<DiagnosticSeverity, vscode.DiagnosticSeverity> = {
+  error: vscode.DiagnosticSeverity.Error,
+  warning: vscode.DiagnosticSeverity.Warning,
+  info: vscode.DiagnosticSeverity.Information,
+};
+
+/** Convert parser diagnostics into editor diagnostics spanning each reported line. */
+export function toEditorDiagnostics(
+  document: vscode.TextDocument,
+  diagnostics: ParseDiagnostic[],
+): vscode.Diagnostic[] {
+  return diagnostics
+    .filter((d) => d.line >= 1 && d.line <= document.lineCount)
+    .map((d) => {
+      const { range } = document.lineAt(d.line - 1);
+      const diagnostic = new vscode.Diagnostic(range, d.message, SEVERITIES[d.severity]);
+      diagnostic.source = "Hexfield Deck";
+      return diagnostic;
+    });
+}
@@ -1,5 +1,8 @@
 import * as vscode from "vscode";
 import { openBoard } from "./commands/openBoard.js";
+import { openCombinedBoard } from "./commands/openCombinedBoard.js";
+import { newWeek } from "./commands/newWeek.js";
+import { rollOverWeek } from "./commands/rollOverWeek.js";
 
 export function activate(context: vscode.ExtensionContext) {
   const openBoardCommand = vscode.commands.registerCommand(
@@ -7,7 +10,27 @@ export function activate(context: vscode.ExtensionContext) {
     (uri?: vscode.Uri) => openBoard(context, uri),
   );
 
-  context.subscriptions.push(openBoardCommand);
+  const openCombinedBoardCommand = vscode.commands.registerCommand(
+    "hexfield-deck.openCombinedBoard",
+    (uri?: vscode.Uri) => openCombinedBoard(context, uri),
+  );
+
+  const newWeekCommand = vscode.commands.registerCommand(
+    "hexfield-deck.newWeek",
+    () => newWeek(context),
+  );
+
+  const rollOverWeekCommand = vscode.commands.registerCommand(
+    "hexfield-deck.rollOverWeek",
+    () => rollOverWeek(context),
+  );
+
+  context.subscriptions.push(
+    openBoardCommand,
+    openCombinedBoardCommand,
+    newWeekCommand,
+    rollOverWeekCommand,
+  );
 }
 
 export function deactivate() {}
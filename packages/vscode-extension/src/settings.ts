@@ -0,0 +1,21 @@
+import * as vscode from "vscode";
+import { formatIsoDate, resolvePlannerSchema } from "@hexfield-deck/core";
+import type { ParseOptions } from "@hexfield-deck/core";
+
+/** Workspace defaults for parsing; a planner's frontmatter can override them. */
+export function workspaceParseOptions(): ParseOptions {
+  const config = vscode.workspace.getConfiguration("hexfield-deck");
+  const locale = config.get<string>("locale");
+  const projectPrefix = config.get<string>("projectPrefix");
+  const hoursPerDay = config.get<number>("hoursPerDay");
+  return {
+    schema: resolvePlannerSchema({
+      backlog: config.get("backlogBuckets"),
+      longTerm: config.get("longTermSections"),
+    }),
+    ...(locale ? { locale } : {}),
+    ...(projectPrefix ? { projectPrefix } : {}),
+    ...(hoursPerDay ? { hoursPerDay } : {}),
+    today: formatIsoDate(new Date()),
+  };
+}
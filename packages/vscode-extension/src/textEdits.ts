@@ -0,0 +1,22 @@
+import * as vscode from "vscode";
+import type { TextEdit } from "@hexfield-deck/core";
+
+/** Queue core text edits to `uri` on a workspace edit. */
+export function addTextEdits(
+  edit: vscode.WorkspaceEdit,
+  uri: vscode.Uri,
+  edits: TextEdit[],
+): void {
+  for (const { range, newText } of edits) {
+    edit.replace(
+      uri,
+      new vscode.Range(
+        range.start.line,
+        range.start.character,
+        range.end.line,
+        range.end.character,
+      ),
+      newText,
+    );
+  }
+}
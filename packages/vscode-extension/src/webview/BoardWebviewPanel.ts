@@ -1,24 +1,111 @@
 import * as vscode from "vscode";
-import { parseBoard, allCards } from "@hexfield-deck/core";
+import {
+  parseBoard,
+  parseBoardWithDiagnostics,
+  allCards,
+  moveCard,
+  moveCardToDay,
+  moveCardToSection,
+  moveCardToFile,
+  toggleSubTask,
+  editCard,
+  setPriority,
+  deleteCard,
+  addCard,
+  addWeeks,
+  cardIdAfterEdits,
+  combineBoards,
+  combinedCardId,
+  findCard,
+  formatIsoDate,
+  formatDuration,
+  formatPlannerWeek,
+  normalizeDuration,
+  parseDuration,
+  parsePlannerWeek,
+  plannerWeek,
+  relativeDateBase,
+  resolveRelativeDate,
+  resolveRelativeDueDates,
+  splitCombinedCardId,
+  EditError,
+} from "@hexfield-deck/core";
+import type {
+  BoardData,
+  Card,
+  CardTarget,
+  EditOptions,
+  FileMoveEdits,
+  ParseOptions,
+  Priority,
+  TaskStatus,
+  TextEdit,
+} from "@hexfield-deck/core";
 // @ts-expect-error — esbuild bundles CSS as a text string via --loader:.css=text
 import stylesContent from "./styles.css";
+import { toEditorDiagnostics } from "../diagnostics.js";
+import { workspaceParseOptions } from "../settings.js";
+import { addTextEdits } from "../textEdits.js";
+import {
+  fileMoveEdit,
+  findPlannerFiles,
+  loadWeekPlanner,
+  weekFileUri,
+} from "../weekFiles.js";
+
+/** workspaceState key: document URI → card ID → when its timer started (ms). */
+const TIMERS_KEY = "hexfield-deck.timers";
+
+type TimerState = Record<string, Record<string, number>>;
+
+/** A card on the board: the planner file it is in, and its ID there. */
+interface CardRef {
+  document: vscode.TextDocument;
+  cardId: string;
+}
+
+/** The folder or glob a combined board gathers its planner files from. */
+interface CombinedSource {
+  pattern: vscode.RelativePattern;
+  /** What the board's header calls it. */
+  label: string;
+  /** Picks up planner files created in or deleted from the folder. */
+  watcher: vscode.FileSystemWatcher;
+}
+
+/** What a combined board calls a planner file: its workspace-relative path. */
+function sourceName(document: vscode.TextDocument): string {
+  return vscode.workspace.asRelativePath(document.uri);
+}
 
 export class BoardWebviewPanel {
   public static currentPanel: BoardWebviewPanel | undefined;
 
   private readonly _panel: vscode.WebviewPanel;
   private readonly _extensionUri: vscode.Uri;
-  private _document: vscode.TextDocument;
+  /** Where running timers live, so they outlast the panel and the window. */
+  private readonly _workspaceState: vscode.Memento;
+  /** The planner files on the board: the one opened, or all a combined board found. */
+  private _documents: vscode.TextDocument[];
+  /** Set while the board combines every planner file in a folder or glob. */
+  private _combined: CombinedSource | undefined;
+  private readonly _diagnostics: vscode.DiagnosticCollection;
   private _disposables: vscode.Disposable[] = [];
 
   private constructor(
     panel: vscode.WebviewPanel,
     extensionUri: vscode.Uri,
-    document: vscode.TextDocument,
+    workspaceState: vscode.Memento,
+    documents: vscode.TextDocument[],
   ) {
     this._panel = panel;
     this._extensionUri = extensionUri;
-    this._document = document;
+    this._workspaceState = workspaceState;
+    this._documents = documents;
+
+    // Parser problems show up as squiggles in the planner file
+    this._diagnostics = vscode.languages.createDiagnosticCollection("hexfield-deck");
+    this._disposables.push(this._diagnostics);
 
     // Set initial HTML
     this._panel.webview.html = this._getHtmlForWebview();
@@ -26,7 +113,30 @@ export class BoardWebviewPanel {
     // Listen to document changes
     vscode.workspace.onDidChangeTextDocument(
       (e) => {
-        if (e.document.uri.toString() === this._document.uri.toString()) {
+        if (this._shows(e.document)) {
+          this._update();
+        }
+      },
+      null,
+      this._disposables,
+    );
+
+    // A combined board's files aren't all open in editors, and VS Code
+    // releases those it doesn't need; open them again
+    vscode.workspace.onDidCloseTextDocument(
+      (document) => {
+        if (this._combined && this._shows(document)) {
+          this._loadCombined();
+        }
+      },
+      null,
+      this._disposables,
+    );
+
+    // Section settings change how the file parses
+    vscode.workspace.onDidChangeConfiguration(
+      (e) => {
+        if (e.affectsConfiguration("hexfield-deck")) {
           this._update();
         }
       },
@@ -37,43 +147,76 @@ export class BoardWebviewPanel {
     // Listen to messages from webview
     this._panel.webview.onDidReceiveMessage(
       (message) => {
+        // Card-level messages carry the line the webview rendered, so edits
+        // against a file that changed in the meantime are refused.
+        const options: EditOptions = {
+          ...this._parseOptions(),
+          expectedRawLine: message.expectedRawLine,
+        };
+        // Handlers report the edits they refuse; anything else that fails
+        // (a rejected workspace edit, say) is reported here
+        const report = (handling: Promise<void>) => {
+          handling.catch((error: unknown) => {
+            const reason = error instanceof Error ? error.message : String(error);
+            vscode.window.showErrorMessage(`Hexfield Deck: ${reason}`);
+          });
+        };
+        // Card messages are handled in the file the card is in
+        const withCard = (handle: (card: CardRef) => Promise<void>) => {
+          const card = this._cardRef(message.cardId);
+          if (card) report(handle(card));
+        };
         switch (message.type) {
           case "ready":
             // Webview is ready, send initial data
             this._update();
             break;
           case "moveCard":
-            this._handleMoveCard(message.cardId, message.newStatus);
+            withCard((card) => this._handleMoveCard(card, message.newStatus, options));
             break;
           case "moveCardToDay":
-            this._handleMoveCardToDay(message.cardId, message.targetDay, message.newStatus);
+            withCard((card) =>
+              this._handleMoveCardToDay(card, message.targetDay, message.newStatus, options),
+            );
             break;
           case "moveCardToSection":
-            this._handleMoveCardToSection(message.cardId, message.targetSection);
+            withCard((card) => this._handleMoveCardToSection(card, message.targetSection, options));
+            break;
+          case "moveToWeek":
+            withCard((card) => this._handleMoveToWeek(card, message.pickWeek === true, options));
             break;
           case "toggleSubTask":
-            this._handleToggleSubTask(message.lineNumber);
+            report(this._handleToggleSubTask(message.source, message.lineNumber, options));
             break;
           case "openInMarkdown":
-            this._handleOpenInMarkdown(message.cardId);
+            withCard((card) => this._handleOpenInMarkdown(card, options));
             break;
           case "editTitle":
-            this._handleEditTitle(message.cardId);
+            withCard((card) => this._handleEditTitle(card, options));
             break;
           case "editDueDate":
-            this._handleEditDueDate(message.cardId);
+            withCard((card) => this._handleEditDueDate(card, options));
             break;
           case "editTimeEstimate":
-            this._handleEditTimeEstimate(message.cardId);
+            withCard((card) => this._handleEditTimeEstimate(card, options));
+            break;
+          case "toggleTimer":
+            withCard((card) => this._handleToggleTimer(card, options));
             break;
           case "setPriority":
-            this._handleSetPriority(message.cardId, message.priority);
+            withCard((card) => this._handleSetPriority(card, message.priority, options));
             break;
           case "deleteTask":
-            this._handleDeleteTask(message.cardId);
+            withCard((card) => this._handleDeleteTask(card, options));
+            break;
+          case "resolveRelativeDueDates":
+            report(this._handleResolveRelativeDueDates());
             break;
           case "addTask":
-            this._handleAddTask(message.targetDay, message.targetSection);
+            // A combined board has no one file to add the task to
+            if (!this._combined) {
+              report(this._handleAddTask(message.targetDay, message.targetSection, options));
+            }
             break;
           case "openLink":
             if (message.url && typeof message.url === "string") {
@@ -92,25 +235,70 @@ export class BoardWebviewPanel {
 
   public static createOrShow(
     extensionUri: vscode.Uri,
+    workspaceState: vscode.Memento,
     document: vscode.TextDocument,
   ): void {
     // If panel exists, reveal it and update document if different
     if (BoardWebviewPanel.currentPanel) {
-      BoardWebviewPanel.currentPanel._panel.reveal(vscode.ViewColumn.Beside);
+      const current = BoardWebviewPanel.currentPanel;
+      current._panel.reveal(vscode.ViewColumn.Beside);
 
       // Update document reference if different file
       if (
-        BoardWebviewPanel.currentPanel._document.uri.toString() !==
-        document.uri.toString()
+        current._combined ||
+        current._documents[0]?.uri.toString() !== document.uri.toString()
       ) {
-        BoardWebviewPanel.currentPanel._document = document;
-        BoardWebviewPanel.currentPanel._update();
+        current._stopCombined();
+        current._documents = [document];
+        current._update();
       }
       return;
     }
 
-    // Create new panel
-    const panel = vscode.window.createWebviewPanel(
+    BoardWebviewPanel.currentPanel = new BoardWebviewPanel(
+      BoardWebviewPanel._createPanel(extensionUri),
+      extensionUri,
+      workspaceState,
+      [document],
+    );
+  }
+
+  /**
+   * Show every planner file matching `pattern` on one board, each card
+   * linked to and edited in its own file. The board follows files being
+   * created, changed and deleted.
+   */
+  public static showCombined(
+    extensionUri: vscode.Uri,
+    workspaceState: vscode.Memento,
+    pattern: vscode.RelativePattern,
+    label: string,
+  ): void {
+    let current = BoardWebviewPanel.currentPanel;
+    if (current) {
+      current._panel.reveal(vscode.ViewColumn.Beside);
+      current._stopCombined();
+    } else {
+      current = new BoardWebviewPanel(
+        BoardWebviewPanel._createPanel(extensionUri),
+        extensionUri,
+        workspaceState,
+        [],
+      );
+      BoardWebviewPanel.currentPanel = current;
+    }
+
+    const board = current;
+    const watcher = vscode.workspace.createFileSystemWatcher(pattern, false, true, false);
+    watcher.onDidCreate(() => board._loadCombined());
+    watcher.onDidDelete(() => board._loadCombined());
+    board._combined = { pattern, label, watcher };
+    board._documents = [];
+    board._loadCombined();
+  }
+
+  private static _createPanel(extensionUri: vscode.Uri): vscode.WebviewPanel {
+    return vscode.window.createWebviewPanel(
       "hexfieldDeckBoard",
       "Hexfield Deck",
       vscode.ViewColumn.Beside,
@@ -122,12 +310,54 @@ export class BoardWebviewPanel {
         ],
       },
     );
+  }
 
-    BoardWebviewPanel.currentPanel = new BoardWebviewPanel(
-      panel,
-      extensionUri,
-      document,
-    );
+  /** Leave combined mode, if the board is in it. */
+  private _stopCombined(): void {
+    this._combined?.watcher.dispose();
+    this._combined = undefined;
+  }
+
+  /** Find a combined board's planner files (again) and redraw it. */
+  private async _loadCombined(): Promise<void> {
+    const combined = this._combined;
+    if (!combined) return;
+    const documents = await findPlannerFiles(combined.pattern, this._parseOptions());
+    // The board may have moved on while the files were read
+    if (this._combined !== combined) return;
+    this._documents = documents;
+    this._update();
+  }
+
+  /** Whether `document` is one of the planner files on the board. */
+  private _shows(document: vscode.TextDocument): boolean {
+    const uri = document.uri.toString();
+    return this._documents.some((shown) => shown.uri.toString() === uri);
+  }
+
+  /**
+   * The planner file a combined board calls `source`; on a single planner's
+   * board, that planner.
+   */
+  private _sourceDocument(source: string | undefined): vscode.TextDocument | undefined {
+    if (!this._combined) return this._documents[0];
+    return this._documents.find((document) => sourceName(document) === source);
+  }
+
+  /** Where a card on the board lives, reporting one that isn't there any more. */
+  private _cardRef(cardId: unknown): CardRef | undefined {
+    if (typeof cardId !== "string") return undefined;
+    const split = this._combined
+      ? splitCombinedCardId(cardId)
+      : { source: undefined, cardId };
+    const document = split && this._sourceDocument(split.source);
+    if (!split || !document) {
+      vscode.window.showErrorMessage(
+        `Card not found: ${cardId}. The file may have changed since the board was drawn.`,
+      );
+      return undefined;
+    }
+    return { document, cardId: split.cardId };
   }
 
   private _getHtmlForWebview(): string {
@@ -164,351 +394,348 @@ export class BoardWebviewPanel {
     return text;
   }
 
+  /** Workspace defaults for parsing; a planner's frontmatter can override them. */
+  private _parseOptions(): ParseOptions {
+    return workspaceParseOptions();
+  }
+
   private _update(): void {
-    const text = this._document.getText();
-    const board = parseBoard(text);
-    const cards = allCards(board);
+    const options = this._parseOptions();
+    const parsed = this._documents.map((document) => ({
+      document,
+      ...parseBoardWithDiagnostics(document.getText(), options),
+    }));
+    const userHandle = vscode.workspace
+      .getConfiguration("hexfield-deck")
+      .get<string>("userHandle", "")
+      .replace(/^@/, "");
+
+    // Only the files shown on the board carry diagnostics
+    this._diagnostics.clear();
+    for (const { document, diagnostics } of parsed) {
+      this._diagnostics.set(document.uri, toEditorDiagnostics(document, diagnostics));
+    }
+
+    // A combined board knows cards (and so their timers) by combined ID
+    let board = parsed[0]?.board;
+    let timers = parsed[0] ? this._liveTimers(parsed[0].document, parsed[0].board) : {};
+    if (this._combined) {
+      board = combineBoards(
+        parsed.map((p) => ({ source: sourceName(p.document), board: p.board })),
+      );
+      timers = {};
+      for (const { document, board: own } of parsed) {
+        for (const [cardId, startedAt] of Object.entries(this._liveTimers(document, own))) {
+          timers[combinedCardId(sourceName(document), cardId)] = startedAt;
+        }
+      }
+    }
+    if (!board) return;
 
     // Send update to webview
     this._panel.webview.postMessage({
       type: "update",
       boardData: board,
-      cards: cards,
-      isDirty: this._document.isDirty,
+      cards: allCards(board),
+      isDirty: this._documents.some((document) => document.isDirty),
+      userHandle,
+      timers,
+      ...(this._combined
+        ? {
+            combined: {
+              label: this._combined.label,
+              sources: this._documents.map(sourceName),
+            },
+          }
+        : {}),
     });
   }
 
-  private async _handleMoveCard(cardId: string, newStatus: string): Promise<void> {
-    const text = this._document.getText();
-    const board = parseBoard(text);
-    const cards = allCards(board);
-
-    // Find the card
-    const card = cards.find((c) => c.id === cardId);
-    if (!card) {
-      vscode.window.showErrorMessage(`Card not found: ${cardId}`);
-      return;
-    }
-
-    // Map status to checkbox
-    const checkboxMap: Record<string, string> = {
-      "todo": "[ ]",
-      "in-progress": "[/]",
-      "done": "[x]",
-    };
-
-    const newCheckbox = checkboxMap[newStatus];
-    if (!newCheckbox) {
-      vscode.window.showErrorMessage(`Invalid status: ${newStatus}`);
-      return;
-    }
-
-    // Get the line content
-    const lines = text.split("\n");
-    const lineIndex = card.lineNumber - 1; // Convert to 0-based
-    const oldLine = lines[lineIndex];
-
-    // Replace checkbox in the line
-    const newLine = oldLine.replace(/^(\s*-\s*)\[[x /]\]/, `$1${newCheckbox}`);
-
-    // Apply edit
-    const edit = new vscode.WorkspaceEdit();
-    const range = new vscode.Range(
-      lineIndex,
-      0,
-      lineIndex,
-      oldLine.length,
-    );
-    edit.replace(this._document.uri, range, newLine);
-
-    await vscode.workspace.applyEdit(edit);
+  /** Start times of the running timers in `document`, by card ID. */
+  private _timers(document: vscode.TextDocument): Record<string, number> {
+    const state = this._workspaceState.get<TimerState>(TIMERS_KEY, {});
+    return state[document.uri.toString()] ?? {};
   }
 
   /**
-   * Get the full line range of a card (title line + indented children/body).
-   * Returns [startIndex, endIndex) in 0-based line indices.
+   * The timers in `document` whose cards are on `board`. A timer whose card
+   * is missing, e.g. while its title is retyped in the editor, is kept for
+   * when the card is back.
    */
-  private _getCardLineRange(lines: string[], cardLineIndex: number): [number, number] {
-    const start = cardLineIndex;
-    let end = start + 1;
-
-    // The card's title line starts with optional whitespace + "- ["
-    const titleIndent = lines[start].match(/^(\s*)/)?.[1].length ?? 0;
-
-    // Collect all following lines that are more indented (sub-tasks, body text)
-    while (end < lines.length) {
-      const line = lines[end];
-      // Empty lines within a card block — include if followed by indented content
-      if (line.trim() === "") {
-        // Peek ahead
-        if (end + 1 < lines.length) {
-          const nextIndent = lines[end + 1].match(/^(\s*)/)?.[1].length ?? 0;
-          if (nextIndent > titleIndent) {
-            end++;
-            continue;
-          }
-        }
-        break;
-      }
-      const lineIndent = line.match(/^(\s*)/)?.[1].length ?? 0;
-      if (lineIndent <= titleIndent) break;
-      end++;
-    }
+  private _liveTimers(
+    document: vscode.TextDocument,
+    board: BoardData,
+  ): Record<string, number> {
+    const ids = new Set(allCards(board).map((card) => card.id));
+    return Object.fromEntries(
+      Object.entries(this._timers(document)).filter(([id]) => ids.has(id)),
+    );
+  }
 
-    return [start, end];
+  /** Record (or clear, with `undefined`) when a card's timer started. */
+  private async _setTimer(
+    document: vscode.TextDocument,
+    cardId: string,
+    startedAt: number | undefined,
+  ): Promise<void> {
+    await this._updateTimers(document, (timers) => {
+      if (startedAt === undefined) delete timers[cardId];
+      else timers[cardId] = startedAt;
+    });
+  }
+
+  /** Change the timers in `document` in one workspace state update. */
+  private async _updateTimers(
+    document: vscode.TextDocument,
+    change: (timers: Record<string, number>) => void,
+  ): Promise<void> {
+    const state = this._workspaceState.get<TimerState>(TIMERS_KEY, {});
+    const uri = document.uri.toString();
+    const timers = { ...state[uri] };
+    change(timers);
+    const next = { ...state, [uri]: timers };
+    if (Object.keys(timers).length === 0) delete next[uri];
+    await this._workspaceState.update(TIMERS_KEY, next);
   }
 
   /**
-   * Find the insertion point for a card in a target day section.
-   * Returns the 0-based line index where the card should be inserted.
+   * Carry running timers over to their cards' new IDs before `edits` are
+   * applied, and drop those of the cards the edits remove.
    */
-  private _findDaySectionInsertionPoint(lines: string[], targetDay: string): number | null {
-    // Find the ## heading that contains the target day name
-    const headingPattern = new RegExp(`^##\\s+${targetDay}`, "i");
-
-    for (let i = 0; i < lines.length; i++) {
-      if (headingPattern.test(lines[i])) {
-        // Found the heading — find the end of this section (next ## heading or EOF)
-        let insertAt = i + 1;
-
-        // Skip past all content in this section
-        for (let j = i + 1; j < lines.length; j++) {
-          if (/^##\s/.test(lines[j])) break;
-          insertAt = j + 1;
-        }
-
-        // Back up past trailing blank lines to insert before them
-        while (insertAt > i + 1 && lines[insertAt - 1].trim() === "") {
-          insertAt--;
-        }
-
-        return insertAt;
+  private async _keepTimers(
+    document: vscode.TextDocument,
+    text: string,
+    edits: TextEdit[],
+  ): Promise<void> {
+    const running = Object.entries(this._timers(document));
+    if (running.length === 0) return;
+    const options = this._parseOptions();
+
+    const changes = running.flatMap(([cardId, startedAt]) => {
+      let newId: string | undefined;
+      try {
+        newId = cardIdAfterEdits(text, edits, cardId, options);
+      } catch (error) {
+        // A card that isn't in the file right now keeps its timer
+        if (error instanceof EditError) return [];
+        throw error;
       }
-    }
-
-    return null;
+      return newId === cardId ? [] : [{ cardId, newId, startedAt }];
+    });
+    if (changes.length === 0) return;
+    await this._updateTimers(document, (timers) => {
+      for (const { cardId } of changes) delete timers[cardId];
+      for (const { newId, startedAt } of changes) {
+        if (newId !== undefined) timers[newId] = startedAt;
+      }
+    });
   }
 
-  private async _handleMoveCardToDay(
-    cardId: string,
-    targetDay: string,
-    newStatus: string,
+  /** Compute core text edits against `document` and apply them. */
+  private async _applyEdits(
+    document: vscode.TextDocument,
+    compute: (text: string) => TextEdit[],
   ): Promise<void> {
-    const text = this._document.getText();
-    const board = parseBoard(text);
-    const cards = allCards(board);
-
-    const card = cards.find((c) => c.id === cardId);
-    if (!card) {
-      vscode.window.showErrorMessage(`Card not found: ${cardId}`);
-      return;
-    }
-
-    const checkboxMap: Record<string, string> = {
-      "todo": "[ ]",
-      "in-progress": "[/]",
-      "done": "[x]",
-    };
-
-    const newCheckbox = checkboxMap[newStatus];
-    if (!newCheckbox) {
-      vscode.window.showErrorMessage(`Invalid status: ${newStatus}`);
-      return;
-    }
-
-    const lines = text.split("\n");
-    const cardLineIndex = card.lineNumber - 1;
-    const [rangeStart, rangeEnd] = this._getCardLineRange(lines, cardLineIndex);
-
-    // Extract the card lines and update the checkbox on the title line
-    const cardLines = lines.slice(rangeStart, rangeEnd).map((line, i) => {
-      if (i === 0) {
-        return line.replace(/^(\s*-\s*)\[[x /]\]/, `$1${newCheckbox}`);
+    const text = document.getText();
+    let edits: TextEdit[];
+    try {
+      edits = compute(text);
+    } catch (error) {
+      if (error instanceof EditError) {
+        vscode.window.showErrorMessage(error.message);
+        return;
       }
-      return line;
-    });
-
-    // Find where to insert in the target section
-    const insertAt = this._findDaySectionInsertionPoint(lines, targetDay);
-    if (insertAt === null) {
-      vscode.window.showErrorMessage(`Day section not found: ${targetDay}`);
-      return;
+      throw error;
     }
+    if (edits.length === 0) return;
 
-    // Build new document: remove old lines, insert at new position
-    // We need to be careful about index shifting when remove happens before insert
-    const newLines = [...lines];
-
-    // Remove the old card lines first
-    newLines.splice(rangeStart, rangeEnd - rangeStart);
-
-    // Adjust insertion index if the removal was before the insertion point
-    let adjustedInsertAt = insertAt;
-    if (rangeStart < insertAt) {
-      adjustedInsertAt -= (rangeEnd - rangeStart);
-    }
-
-    // Insert the card lines at the new position
-    newLines.splice(adjustedInsertAt, 0, ...cardLines);
-
-    // Apply as a full document replacement
+    await this._keepTimers(document, text, edits);
     const edit = new vscode.WorkspaceEdit();
-    const fullRange = new vscode.Range(
-      0, 0,
-      lines.length - 1, lines[lines.length - 1].length,
-    );
-    edit.replace(this._document.uri, fullRange, newLines.join("\n"));
-
+    addTextEdits(edit, document.uri, edits);
     await vscode.workspace.applyEdit(edit);
   }
 
-  /** Map section keys to their markdown heading patterns. */
-  private _findSectionInsertionPoint(lines: string[], sectionKey: string): number | null {
-    // Map section keys to heading text
-    const sectionHeadings: Record<string, { level: number; text: string }> = {
-      "now": { level: 3, text: "Now" },
-      "next-2-weeks": { level: 3, text: "Next 2 Weeks" },
-      "this-month": { level: 3, text: "This Month" },
-      "this-quarter": { level: 2, text: "This Quarter" },
-      "this-year": { level: 2, text: "This Year" },
-      "parking-lot": { level: 2, text: "Parking Lot" },
-    };
-
-    const target = sectionHeadings[sectionKey];
-    if (!target) return null;
-
-    const prefix = "#".repeat(target.level);
-    const headingPattern = new RegExp(`^${prefix}\\s+${target.text}`, "i");
-    // The boundary is any heading at the same level or higher
-    const boundaryPattern = new RegExp(`^#{1,${target.level}}\\s`);
+  /** Look up a card for a prompt, reporting a missing or stale card. */
+  private _findCard(
+    document: vscode.TextDocument,
+    cardId: string,
+    options: EditOptions,
+  ): Card | undefined {
+    try {
+      return findCard(document.getText(), cardId, options);
+    } catch (error) {
+      if (error instanceof EditError) {
+        vscode.window.showErrorMessage(error.message);
+        return undefined;
+      }
+      throw error;
+    }
+  }
 
-    for (let i = 0; i < lines.length; i++) {
-      if (headingPattern.test(lines[i])) {
-        let insertAt = i + 1;
+  /** Options for a state change: whether to stamp `started:`/`done:` dates. */
+  private _statusOptions(options: EditOptions): EditOptions {
+    return {
+      ...options,
+      stampDates: vscode.workspace
+        .getConfiguration("hexfield-deck")
+        .get<boolean>("stampDates", false),
+    };
+  }
 
-        for (let j = i + 1; j < lines.length; j++) {
-          if (boundaryPattern.test(lines[j])) break;
-          insertAt = j + 1;
-        }
+  /** Ask before starting a card that waits on unfinished dependencies. */
+  private async _confirmStart(
+    document: vscode.TextDocument,
+    cardId: string,
+    newStatus: TaskStatus,
+    options: EditOptions,
+  ): Promise<boolean> {
+    if (newStatus !== "in-progress") return true;
+    const card = this._findCard(document, cardId, options);
+    if (!card) return false;
+    if (card.status === "in-progress" || !card.blockedBy?.length) return true;
 
-        while (insertAt > i + 1 && lines[insertAt - 1].trim() === "") {
-          insertAt--;
-        }
+    const confirmed = await vscode.window.showWarningMessage(
+      `"${card.title}" comes after ${card.blockedBy.join(", ")}, which is not done yet. Start it anyway?`,
+      { modal: true },
+      "Start Anyway",
+    );
+    return confirmed === "Start Anyway";
+  }
 
-        return insertAt;
-      }
-    }
+  private async _handleMoveCard(
+    { document, cardId }: CardRef,
+    newStatus: TaskStatus,
+    options: EditOptions,
+  ): Promise<void> {
+    if (!(await this._confirmStart(document, cardId, newStatus, options))) return;
+    const statusOptions = this._statusOptions(options);
+    await this._applyEdits(document, (text) =>
+      moveCard(text, cardId, newStatus, statusOptions),
+    );
+  }
 
-    return null;
+  private async _handleMoveCardToDay(
+    { document, cardId }: CardRef,
+    targetDay: string,
+    newStatus: TaskStatus,
+    options: EditOptions,
+  ): Promise<void> {
+    if (!(await this._confirmStart(document, cardId, newStatus, options))) return;
+    const statusOptions = this._statusOptions(options);
+    await this._applyEdits(document, (text) =>
+      moveCardToDay(text, cardId, targetDay, newStatus, statusOptions),
+    );
   }
 
   private async _handleMoveCardToSection(
-    cardId: string,
+    { document, cardId }: CardRef,
     targetSection: string,
+    options: EditOptions,
+  ): Promise<void> {
+    await this._applyEdits(document, (text) =>
+      moveCardToSection(text, cardId, targetSection, options),
+    );
+  }
+
+  /**
+   * Move a card to next week's planner file, or to a week the user picks,
+   * creating that file when it doesn't exist yet. Both files change in one
+   * workspace edit, so a single undo puts the card back.
+   */
+  private async _handleMoveToWeek(
+    { document, cardId }: CardRef,
+    pickWeek: boolean,
+    options: EditOptions,
   ): Promise<void> {
-    const text = this._document.getText();
-    const board = parseBoard(text);
-    const cards = allCards(board);
+    const card = this._findCard(document, cardId, options);
+    if (!card) return;
 
-    const card = cards.find((c) => c.id === cardId);
-    if (!card) {
-      vscode.window.showErrorMessage(`Card not found: ${cardId}`);
+    const { frontmatter } = parseBoard(document.getText(), options);
+    const current = plannerWeek(frontmatter);
+    if (!current) {
+      vscode.window.showErrorMessage(
+        "This planner's frontmatter has no week and year, so there is no next week to move to.",
+      );
       return;
     }
 
-    const lines = text.split("\n");
-    const cardLineIndex = card.lineNumber - 1;
-    const [rangeStart, rangeEnd] = this._getCardLineRange(lines, cardLineIndex);
-
-    // Extract the card lines (keep checkbox as-is for section moves)
-    const cardLines = lines.slice(rangeStart, rangeEnd);
+    let week = addWeeks(current, 1);
+    if (pickWeek) {
+      const input = await vscode.window.showInputBox({
+        value: formatPlannerWeek(week),
+        prompt: `Move "${card.title}" to week (e.g. 2026-W08, 8, +2)`,
+        placeHolder: "YYYY-Www",
+        validateInput: (val) =>
+          parsePlannerWeek(val, current)
+            ? undefined
+            : "Enter a week as YYYY-Www, a week number, or +N weeks from this one",
+      });
+      if (input === undefined) return;
+      const picked = parsePlannerWeek(input, current);
+      if (!picked) return;
+      week = picked;
+    }
 
-    const insertAt = this._findSectionInsertionPoint(lines, targetSection);
-    if (insertAt === null) {
-      vscode.window.showErrorMessage(`Section not found: ${targetSection}`);
+    const uri = weekFileUri(document.uri, week);
+    if (!uri) {
+      vscode.window.showErrorMessage(
+        "Set hexfield-deck.weekFilePattern, and open the planner folder as a workspace (or set an absolute hexfield-deck.plannerRoot), to move cards between weeks.",
+      );
       return;
     }
-
-    const newLines = [...lines];
-    newLines.splice(rangeStart, rangeEnd - rangeStart);
-
-    let adjustedInsertAt = insertAt;
-    if (rangeStart < insertAt) {
-      adjustedInsertAt -= (rangeEnd - rangeStart);
+    if (uri.toString() === document.uri.toString()) {
+      vscode.window.showInformationMessage(`"${card.title}" is already in ${formatPlannerWeek(week)}.`);
+      return;
     }
 
-    newLines.splice(adjustedInsertAt, 0, ...cardLines);
+    const target = await loadWeekPlanner(uri, week, this._parseOptions().schema);
+    if (!target) return;
 
-    const edit = new vscode.WorkspaceEdit();
-    const fullRange = new vscode.Range(
-      0, 0,
-      lines.length - 1, lines[lines.length - 1].length,
-    );
-    edit.replace(this._document.uri, fullRange, newLines.join("\n"));
-
-    await vscode.workspace.applyEdit(edit);
-  }
-
-  private async _handleToggleSubTask(lineNumber: number): Promise<void> {
-    const text = this._document.getText();
-    const lines = text.split("\n");
-    const lineIndex = lineNumber - 1; // Convert to 0-based
-    const oldLine = lines[lineIndex];
-
-    if (!oldLine) return;
-
-    // Cycle: [ ] → [/] → [x] → [ ]
-    let newLine: string;
-    if (/\[x\]/.test(oldLine)) {
-      newLine = oldLine.replace("[x]", "[ ]");
-    } else if (/\[\/\]/.test(oldLine)) {
-      newLine = oldLine.replace("[/]", "[x]");
-    } else {
-      newLine = oldLine.replace("[ ]", "[/]");
+    // A timer can't follow its card to another file, so its time is logged
+    // first. That rewrites the card's line, which was checked doing so.
+    let moveOptions = options;
+    if (this._timers(document)[cardId] !== undefined) {
+      if (!(await this._stopTimer(document, cardId, options))) return;
+      moveOptions = { ...options, expectedRawLine: undefined };
     }
 
-    const edit = new vscode.WorkspaceEdit();
-    const range = new vscode.Range(lineIndex, 0, lineIndex, oldLine.length);
-    edit.replace(this._document.uri, range, newLine);
+    let moved: FileMoveEdits;
+    try {
+      moved = moveCardToFile(document.getText(), target.text, cardId, moveOptions);
+    } catch (error) {
+      if (error instanceof EditError) {
+        vscode.window.showErrorMessage(error.message);
+        return;
+      }
+      throw error;
+    }
 
-    await vscode.workspace.applyEdit(edit);
+    if (await vscode.workspace.applyEdit(fileMoveEdit(document.uri, target, moved))) {
+      vscode.window.showInformationMessage(
+        `Moved "${card.title}" to ${vscode.workspace.asRelativePath(uri)}.`,
+      );
+    }
   }
 
-  /**
-   * Reconstruct a task line from card fields + optional overrides.
-   * Normalizes metadata order: title #project [date] !!! est:Xh
-   */
-  private _rebuildTaskLine(card: { rawLine: string; title: string; project?: string; dueDate?: string; priority?: string; timeEstimate?: string }, overrides: { title?: string; project?: string; dueDate?: string | null; priority?: string | null; timeEstimate?: string | null }): string {
-    // Extract leading whitespace + checkbox prefix from rawLine
-    const prefixMatch = card.rawLine.match(/^(\s*-\s*\[[x /]\]\s*)/);
-    const prefix = prefixMatch ? prefixMatch[1] : "- [ ] ";
-
-    const title = overrides.title !== undefined ? overrides.title : card.title;
-    const project = overrides.project !== undefined ? overrides.project : card.project;
-    const dueDate = overrides.dueDate !== undefined ? overrides.dueDate : card.dueDate;
-    const priority = overrides.priority !== undefined ? overrides.priority : card.priority;
-    const timeEstimate = overrides.timeEstimate !== undefined ? overrides.timeEstimate : card.timeEstimate;
-
-    const priorityMap: Record<string, string> = { high: "!!!", medium: "!!", low: "!" };
-
-    let line = prefix + title;
-    if (project) line += ` #${project}`;
-    if (dueDate) line += ` [${dueDate}]`;
-    if (priority && priorityMap[priority]) line += ` ${priorityMap[priority]}`;
-    if (timeEstimate) line += ` est:${timeEstimate}`;
-
-    return line;
+  private async _handleToggleSubTask(
+    source: string | undefined,
+    lineNumber: number,
+    options: EditOptions,
+  ): Promise<void> {
+    const document = this._sourceDocument(source);
+    if (!document) return;
+    await this._applyEdits(document, (text) => toggleSubTask(text, lineNumber, options));
   }
 
-  private async _handleOpenInMarkdown(cardId: string): Promise<void> {
-    const text = this._document.getText();
-    const board = parseBoard(text);
-    const cards = allCards(board);
-    const card = cards.find((c) => c.id === cardId);
+  private async _handleOpenInMarkdown(
+    { document, cardId }: CardRef,
+    options: EditOptions,
+  ): Promise<void> {
+    const card = this._findCard(document, cardId, options);
     if (!card) return;
 
     const lineIndex = card.lineNumber - 1;
-    const editor = await vscode.window.showTextDocument(this._document, {
+    const editor = await vscode.window.showTextDocument(document, {
       viewColumn: vscode.ViewColumn.One,
       preserveFocus: false,
     });
@@ -517,11 +744,11 @@ export class BoardWebviewPanel {
     editor.revealRange(new vscode.Range(pos, pos), vscode.TextEditorRevealType.InCenter);
   }
 
-  private async _handleEditTitle(cardId: string): Promise<void> {
-    const text = this._document.getText();
-    const board = parseBoard(text);
-    const cards = allCards(board);
-    const card = cards.find((c) => c.id === cardId);
+  private async _handleEditTitle(
+    { document, cardId }: CardRef,
+    options: EditOptions,
+  ): Promise<void> {
+    const card = this._findCard(document, cardId, options);
     if (!card) return;
 
     const newTitle = await vscode.window.showInputBox({
@@ -531,88 +758,127 @@ export class BoardWebviewPanel {
     });
     if (newTitle === undefined || newTitle === card.title) return;
 
-    const lines = text.split("\n");
-    const lineIndex = card.lineNumber - 1;
-    const newLine = this._rebuildTaskLine(card, { title: newTitle });
-
-    const edit = new vscode.WorkspaceEdit();
-    edit.replace(this._document.uri, new vscode.Range(lineIndex, 0, lineIndex, lines[lineIndex].length), newLine);
-    await vscode.workspace.applyEdit(edit);
+    await this._applyEdits(document, (current) =>
+      editCard(current, cardId, { title: newTitle }, options),
+    );
   }
 
-  private async _handleEditDueDate(cardId: string): Promise<void> {
-    const text = this._document.getText();
-    const board = parseBoard(text);
-    const cards = allCards(board);
-    const card = cards.find((c) => c.id === cardId);
+  private async _handleEditDueDate(
+    { document, cardId }: CardRef,
+    options: EditOptions,
+  ): Promise<void> {
+    const card = this._findCard(document, cardId, options);
     if (!card) return;
 
+    // Relative dates count from the planner's week, and are written as ISO
+    const { frontmatter } = parseBoard(document.getText(), options);
+    const base = relativeDateBase(frontmatter, options.today ?? formatIsoDate(new Date()));
+    const toIso = (val: string) =>
+      /^\d{4}-\d{2}-\d{2}$/.test(val) ? val : resolveRelativeDate(val, base);
+
     const newDate = await vscode.window.showInputBox({
       value: card.dueDate ?? "",
-      prompt: "Due date (YYYY-MM-DD), or leave empty to clear",
+      prompt: "Due date (YYYY-MM-DD, tomorrow, fri, +3d, next-week, eow), or leave empty to clear",
       placeHolder: "YYYY-MM-DD",
       validateInput: (val) => {
-        if (val === "") return undefined;
-        if (/^\d{4}-\d{2}-\d{2}$/.test(val)) return undefined;
-        return "Enter a date as YYYY-MM-DD, or leave empty to clear";
+        if (val.trim() === "" || toIso(val.trim())) return undefined;
+        return "Enter a date as YYYY-MM-DD or tomorrow, fri, +3d, next-week, eow, or leave empty to clear";
       },
     });
     if (newDate === undefined) return;
 
-    const lines = text.split("\n");
-    const lineIndex = card.lineNumber - 1;
-    const newLine = this._rebuildTaskLine(card, { dueDate: newDate || null });
-
-    const edit = new vscode.WorkspaceEdit();
-    edit.replace(this._document.uri, new vscode.Range(lineIndex, 0, lineIndex, lines[lineIndex].length), newLine);
-    await vscode.workspace.applyEdit(edit);
+    const dueDate = newDate.trim() === "" ? null : toIso(newDate.trim());
+    if (dueDate === undefined) return;
+    await this._applyEdits(document, (current) =>
+      editCard(current, cardId, { dueDate }, options),
+    );
   }
 
-  private async _handleEditTimeEstimate(cardId: string): Promise<void> {
-    const text = this._document.getText();
-    const board = parseBoard(text);
-    const cards = allCards(board);
-    const card = cards.find((c) => c.id === cardId);
+  private async _handleEditTimeEstimate(
+    { document, cardId }: CardRef,
+    options: EditOptions,
+  ): Promise<void> {
+    const card = this._findCard(document, cardId, options);
     if (!card) return;
 
     const newEst = await vscode.window.showInputBox({
-      value: card.timeEstimate ?? "",
-      prompt: "Time estimate (e.g. 2h, 30m), or leave empty to clear",
+      value: card.timeEstimate?.text ?? "",
+      prompt: "Time estimate (e.g. 2h, 1h30m, 1.5h, 2d, 90min), or leave empty to clear",
       placeHolder: "2h",
+      validateInput: (val) => {
+        if (val === "" || parseDuration(val.trim(), options.hoursPerDay)) return undefined;
+        return "Enter a duration such as 2h, 1h30m, 2d or 90min, or leave empty to clear";
+      },
     });
     if (newEst === undefined) return;
 
-    const lines = text.split("\n");
-    const lineIndex = card.lineNumber - 1;
-    const newLine = this._rebuildTaskLine(card, { timeEstimate: newEst || null });
+    // Written in normal form: 1.5h and 90min both become 1h30m
+    const duration = parseDuration(newEst.trim(), options.hoursPerDay);
+    const timeEstimate = duration
+      ? normalizeDuration(duration, options.hoursPerDay)
+      : null;
+    await this._applyEdits(document, (current) =>
+      editCard(current, cardId, { timeEstimate }, options),
+    );
+  }
 
-    const edit = new vscode.WorkspaceEdit();
-    edit.replace(this._document.uri, new vscode.Range(lineIndex, 0, lineIndex, lines[lineIndex].length), newLine);
-    await vscode.workspace.applyEdit(edit);
+  /** Start a card's timer, or stop it and log the time (see `_stopTimer`). */
+  private async _handleToggleTimer(
+    { document, cardId }: CardRef,
+    options: EditOptions,
+  ): Promise<void> {
+    if (this._timers(document)[cardId] === undefined) {
+      await this._setTimer(document, cardId, Date.now());
+      this._update();
+      return;
+    }
+    if (await this._stopTimer(document, cardId, options)) this._update();
   }
 
-  private async _handleSetPriority(cardId: string, priority: string): Promise<void> {
-    const text = this._document.getText();
-    const board = parseBoard(text);
-    const cards = allCards(board);
-    const card = cards.find((c) => c.id === cardId);
-    if (!card) return;
+  /**
+   * Stop a card's timer and add the elapsed minutes to the card's `spent:`
+   * time. A timer whose time can't be written keeps running: false then.
+   */
+  private async _stopTimer(
+    document: vscode.TextDocument,
+    cardId: string,
+    options: EditOptions,
+  ): Promise<boolean> {
+    const startedAt = this._timers(document)[cardId];
+    if (startedAt === undefined) return true;
+
+    const elapsed = Math.round((Date.now() - startedAt) / 60_000);
+    let logged = elapsed === 0;
+    if (!logged) {
+      await this._applyEdits(document, (text) => {
+        const card = findCard(text, cardId, options);
+        const minutes = (card.timeSpent?.minutes ?? 0) + elapsed;
+        const timeSpent = { text: formatDuration(minutes), minutes };
+        const edits = editCard(text, cardId, { timeSpent }, options);
+        logged = true;
+        return edits;
+      });
+    }
+    if (logged) await this._setTimer(document, cardId, undefined);
+    return logged;
+  }
 
-    const lines = text.split("\n");
-    const lineIndex = card.lineNumber - 1;
+  private async _handleSetPriority(
+    { document, cardId }: CardRef,
+    priority: Priority | "none",
+    options: EditOptions,
+  ): Promise<void> {
     const newPriority = priority === "none" ? null : priority;
-    const newLine = this._rebuildTaskLine(card, { priority: newPriority });
-
-    const edit = new vscode.WorkspaceEdit();
-    edit.replace(this._document.uri, new vscode.Range(lineIndex, 0, lineIndex, lines[lineIndex].length), newLine);
-    await vscode.workspace.applyEdit(edit);
+    await this._applyEdits(document, (text) =>
+      setPriority(text, cardId, newPriority, options),
+    );
   }
 
-  private async _handleDeleteTask(cardId: string): Promise<void> {
-    const text = this._document.getText();
-    const board = parseBoard(text);
-    const cards = allCards(board);
-    const card = cards.find((c) => c.id === cardId);
+  private async _handleDeleteTask(
+    { document, cardId }: CardRef,
+    options: EditOptions,
+  ): Promise<void> {
+    const card = this._findCard(document, cardId, options);
     if (!card) return;
 
     const confirmed = await vscode.window.showWarningMessage(
@@ -622,68 +888,49 @@ export class BoardWebviewPanel {
     );
     if (confirmed !== "Delete") return;
 
-    const lines = text.split("\n");
-    const cardLineIndex = card.lineNumber - 1;
-    const [rangeStart, rangeEnd] = this._getCardLineRange(lines, cardLineIndex);
+    await this._applyEdits(document, (current) => deleteCard(current, cardId, options));
+  }
 
-    const edit = new vscode.WorkspaceEdit();
-    // Delete the lines — include trailing newline if not last line
-    const startPos = new vscode.Position(rangeStart, 0);
-    let endPos: vscode.Position;
-    if (rangeEnd < lines.length) {
-      endPos = new vscode.Position(rangeEnd, 0);
-    } else {
-      // Last line(s) — delete from end of previous line
-      endPos = new vscode.Position(rangeEnd - 1, lines[rangeEnd - 1].length);
-      const adjustedStart = rangeStart > 0
-        ? new vscode.Position(rangeStart - 1, lines[rangeStart - 1].length)
-        : startPos;
-      edit.delete(this._document.uri, new vscode.Range(adjustedStart, endPos));
-      await vscode.workspace.applyEdit(edit);
-      return;
+  /** Rewrite relative due dates as ISO dates, in every file on the board. */
+  private async _handleResolveRelativeDueDates(): Promise<void> {
+    for (const document of this._documents) {
+      await this._applyEdits(document, (text) =>
+        resolveRelativeDueDates(text, this._parseOptions()),
+      );
     }
-    edit.delete(this._document.uri, new vscode.Range(startPos, endPos));
-    await vscode.workspace.applyEdit(edit);
   }
 
-  private async _handleAddTask(targetDay?: string, targetSection?: string): Promise<void> {
+  private async _handleAddTask(
+    targetDay: string | undefined,
+    targetSection: string | undefined,
+    options: ParseOptions,
+  ): Promise<void> {
+    const document = this._documents[0];
+    if (!document) return;
+
     const title = await vscode.window.showInputBox({
       prompt: "New task title",
       placeHolder: "What needs doing?",
     });
     if (!title) return;
 
-    const text = this._document.getText();
-    const lines = text.split("\n");
-    const newTaskLine = `- [ ] ${title}`;
-
-    let insertAt: number | null = null;
-
+    let target: CardTarget;
     if (targetDay) {
-      insertAt = this._findDaySectionInsertionPoint(lines, targetDay);
-      if (insertAt === null) {
-        vscode.window.showErrorMessage(`Day section not found: ${targetDay}`);
-        return;
-      }
+      target = { day: targetDay };
     } else if (targetSection) {
-      insertAt = this._findSectionInsertionPoint(lines, targetSection);
-      if (insertAt === null) {
-        vscode.window.showErrorMessage(`Section not found: ${targetSection}`);
-        return;
-      }
+      target = { section: targetSection };
     } else {
       return;
     }
 
-    const edit = new vscode.WorkspaceEdit();
-    const insertPos = new vscode.Position(insertAt, 0);
-    edit.insert(this._document.uri, insertPos, `${newTaskLine}\n`);
-    await vscode.workspace.applyEdit(edit);
+    await this._applyEdits(document, (text) => addCard(text, title, target, options));
   }
 
   public dispose(): void {
     BoardWebviewPanel.currentPanel = undefined;
 
+    this._stopCombined();
+
     this._panel.dispose();
 
     while (this._disposables.length) {
@@ -7,7 +7,8 @@ import type { ContextMenuAction } from "./ContextMenu.js";
 import { FilterDropdown } from "./FilterDropdown.js";
 import type { FilterState, DueDateBucket, EstimateBucket } from "./FilterDropdown.js";
 import { EMPTY_FILTER, isFilterActive } from "./FilterDropdown.js";
-import type { BoardData, Card, Priority, TaskStatus } from "@hexfield-deck/core";
+import { allSubTasks, daysBetween, formatIsoDate, isBlocked } from "@hexfield-deck/core";
+import type { BoardData, Card, Duration, Priority, SubTask, TaskStatus } from "@hexfield-deck/core";
 
 type ViewMode = "standard" | "swimlane" | "backlog";
 
@@ -32,49 +33,59 @@ function getInitialViewMode(): ViewMode {
 export type ContextMenuHandler = (card: Card, pos: { x: number; y: number }) => void;
 export const ContextMenuContext = createContext<ContextMenuHandler>(() => {});
 
+// Context for opening a card in its planner file
+export const OpenCardContext = createContext<(card: Card) => void>(() => {});
+
+// Context for the per-card timers, which run in the extension host
+export interface TimerHandlers {
+  /** Start times (ms) of running timers, by card ID. */
+  timers: Record<string, number>;
+  toggleTimer: (card: Card) => void;
+}
+export const TimerContext = createContext<TimerHandlers>({
+  timers: {},
+  toggleTimer: () => {},
+});
+
 // ---- Filter helpers --------------------------------------------------------
 
 function matchesDueDateBucket(dueDate: string | undefined, buckets: DueDateBucket[]): boolean {
   if (buckets.includes("none") && !dueDate) return true;
   if (!dueDate) return false;
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-  const d = new Date(dueDate);
-  d.setHours(0, 0, 0, 0);
-  const diff = Math.floor((d.getTime() - today.getTime()) / 86_400_000);
+  const diff = daysBetween(formatIsoDate(new Date()), dueDate);
   if (buckets.includes("overdue") && diff < 0) return true;
   if (buckets.includes("today") && diff === 0) return true;
   if (buckets.includes("this-week") && diff >= 0 && diff <= 7) return true;
   return false;
 }
 
-function parseEstimateMinutes(est?: string): number | null {
-  if (!est) return null;
-  let total = 0;
-  const hours = est.match(/(\d+)h/);
-  const mins = est.match(/(\d+)m/);
-  if (hours) total += parseInt(hours[1]) * 60;
-  if (mins) total += parseInt(mins[1]);
-  return total || null;
-}
-
-function matchesEstimateBucket(timeEstimate: string | undefined, buckets: EstimateBucket[]): boolean {
+function matchesEstimateBucket(timeEstimate: Duration | undefined, buckets: EstimateBucket[]): boolean {
   if (buckets.includes("none") && !timeEstimate) return true;
   if (!timeEstimate) return false;
-  const mins = parseEstimateMinutes(timeEstimate);
-  if (mins === null) return false;
+  const mins = timeEstimate.minutes;
   if (buckets.includes("short") && mins <= 30) return true;
   if (buckets.includes("medium") && mins > 30 && mins <= 120) return true;
   if (buckets.includes("long") && mins > 120) return true;
   return false;
 }
 
-function filterCards(cards: Card[], f: FilterState): Card[] {
+/** "Blocked" also covers cards waiting on an unfinished dependency. */
+function matchesStatus(card: Card, statuses: TaskStatus[]): boolean {
+  return statuses.includes(card.status) || (statuses.includes("blocked") && isBlocked(card));
+}
+
+function filterCards(cards: Card[], f: FilterState, userHandle: string): Card[] {
   if (!isFilterActive(f)) return cards;
   return cards.filter((card) => {
+    if (f.myTasks && !card.assignees?.includes(userHandle))
+      return false;
+    if (f.people.length > 0 && !card.assignees?.some((a) => f.people.includes(a)))
+      return false;
     if (f.projects.length > 0 && (!card.project || !f.projects.includes(card.project)))
       return false;
-    if (f.statuses.length > 0 && !f.statuses.includes(card.status as TaskStatus))
+    if (f.tags.length > 0 && !card.tags.some((t) => f.tags.includes(t)))
+      return false;
+    if (f.statuses.length > 0 && !matchesStatus(card, f.statuses))
       return false;
     if (f.priorities.length > 0 && (!card.priority || !f.priorities.includes(card.priority as Priority)))
       return false;
@@ -86,21 +97,25 @@ function filterCards(cards: Card[], f: FilterState): Card[] {
   });
 }
 
-function filterBoardData(boardData: BoardData, f: FilterState): BoardData {
+function filterBoardData(boardData: BoardData, f: FilterState, userHandle: string): BoardData {
   if (!isFilterActive(f)) return boardData;
-  const keep = (cards: Card[]) => filterCards(cards, f);
+  const keep = (cards: Card[]) => filterCards(cards, f, userHandle);
   return {
     ...boardData,
     days: boardData.days.map((day) => ({ ...day, cards: keep(day.cards) })),
     backlog: boardData.backlog.map((bucket) => ({ ...bucket, cards: keep(bucket.cards) })),
-    thisQuarter: keep(boardData.thisQuarter),
-    thisYear: keep(boardData.thisYear),
-    parkingLot: keep(boardData.parkingLot),
+    longTerm: boardData.longTerm.map((section) => ({ ...section, cards: keep(section.cards) })),
   };
 }
 
 // ---------------------------------------------------------------------------
 
+/** What a combined board shows: the folder or glob, and the files it matched. */
+interface CombinedSources {
+  label: string;
+  sources: string[];
+}
+
 export function App() {
   const [boardData, setBoardData] = useState<BoardData | null>(null);
   const [cards, setCards] = useState<Card[]>([]);
@@ -108,6 +123,9 @@ export function App() {
   const [viewMode, setViewMode] = useState<ViewMode>(getInitialViewMode);
   const [contextMenu, setContextMenu] = useState<{ card: Card; x: number; y: number } | null>(null);
   const [activeFilter, setActiveFilter] = useState<FilterState>(EMPTY_FILTER);
+  const [userHandle, setUserHandle] = useState<string>("");
+  const [timers, setTimers] = useState<Record<string, number>>({});
+  const [combined, setCombined] = useState<CombinedSources | null>(null);
 
   useEffect(() => {
     // Listen for messages from extension
@@ -118,6 +136,9 @@ export function App() {
           setBoardData(message.boardData);
           setCards(message.cards);
           setIsDirty(message.isDirty ?? false);
+          setUserHandle(message.userHandle ?? "");
+          setTimers(message.timers ?? {});
+          setCombined(message.combined ?? null);
           break;
       }
     };
@@ -147,10 +168,13 @@ export function App() {
 
   // Filtered data — recomputed whenever cards, boardData, or the active filter changes.
   // `cards` (unfiltered) is still passed to FilterDropdown so it can enumerate all projects.
-  const filteredCards = useMemo(() => filterCards(cards, activeFilter), [cards, activeFilter]);
+  const filteredCards = useMemo(
+    () => filterCards(cards, activeFilter, userHandle),
+    [cards, activeFilter, userHandle]
+  );
   const filteredBoardData = useMemo(
-    () => (boardData ? filterBoardData(boardData, activeFilter) : null),
-    [boardData, activeFilter]
+    () => (boardData ? filterBoardData(boardData, activeFilter, userHandle) : null),
+    [boardData, activeFilter, userHandle]
   );
 
   const handleViewChange = (mode: ViewMode) => {
@@ -158,22 +182,55 @@ export function App() {
     vscode.setState({ ...vscode.getState(), viewMode: mode });
   };
 
+  // The rendered line travels with each edit so the extension can refuse
+  // it if the file changed underneath the board.
+  const rawLineOf = (cardId: string) => cards.find((c) => c.id === cardId)?.rawLine;
+
   const handleCardMove = (cardId: string, newStatus: string) => {
-    vscode.postMessage({ type: "moveCard", cardId, newStatus });
+    vscode.postMessage({ type: "moveCard", cardId, newStatus, expectedRawLine: rawLineOf(cardId) });
   };
 
   const handleCardMoveToDay = (cardId: string, targetDay: string, newStatus: string) => {
-    vscode.postMessage({ type: "moveCardToDay", cardId, targetDay, newStatus });
+    vscode.postMessage({
+      type: "moveCardToDay",
+      cardId,
+      targetDay,
+      newStatus,
+      expectedRawLine: rawLineOf(cardId),
+    });
   };
 
   const handleCardMoveToSection = (cardId: string, targetSection: string) => {
-    vscode.postMessage({ type: "moveCardToSection", cardId, targetSection });
+    vscode.postMessage({
+      type: "moveCardToSection",
+      cardId,
+      targetSection,
+      expectedRawLine: rawLineOf(cardId),
+    });
   };
 
-  const handleToggleSubTask = (lineNumber: number) => {
-    vscode.postMessage({ type: "toggleSubTask", lineNumber });
+  const handleToggleSubTask = (subTask: SubTask, card: Card) => {
+    vscode.postMessage({
+      type: "toggleSubTask",
+      lineNumber: subTask.lineNumber,
+      source: card.source,
+      expectedRawLine: subTask.rawLine,
+    });
   };
 
+  const openCard = useCallback((card: Card) => {
+    vscode.postMessage({ type: "openInMarkdown", cardId: card.id, expectedRawLine: card.rawLine });
+  }, []);
+
+  const timerHandlers: TimerHandlers = useMemo(
+    () => ({
+      timers,
+      toggleTimer: (card) =>
+        vscode.postMessage({ type: "toggleTimer", cardId: card.id, expectedRawLine: card.rawLine }),
+    }),
+    [timers]
+  );
+
   const openContextMenu: ContextMenuHandler = useCallback((card, pos) => {
     setContextMenu({ card, x: pos.x, y: pos.y });
   }, []);
@@ -181,22 +238,23 @@ export function App() {
   const handleContextMenuAction = (action: ContextMenuAction) => {
     if (!contextMenu) return;
     const { card } = contextMenu;
+    const target = { cardId: card.id, expectedRawLine: card.rawLine };
 
     switch (action.type) {
       case "openInMarkdown":
-        vscode.postMessage({ type: "openInMarkdown", cardId: card.id });
+        vscode.postMessage({ type: "openInMarkdown", ...target });
         break;
       case "editTitle":
-        vscode.postMessage({ type: "editTitle", cardId: card.id });
+        vscode.postMessage({ type: "editTitle", ...target });
         break;
       case "editDueDate":
-        vscode.postMessage({ type: "editDueDate", cardId: card.id });
+        vscode.postMessage({ type: "editDueDate", ...target });
         break;
       case "editTimeEstimate":
-        vscode.postMessage({ type: "editTimeEstimate", cardId: card.id });
+        vscode.postMessage({ type: "editTimeEstimate", ...target });
         break;
       case "setPriority":
-        vscode.postMessage({ type: "setPriority", cardId: card.id, priority: action.priority });
+        vscode.postMessage({ type: "setPriority", ...target, priority: action.priority });
         break;
       case "changeState":
         handleCardMove(card.id, action.newStatus);
@@ -207,17 +265,37 @@ export function App() {
       case "moveToBacklog":
         handleCardMoveToSection(card.id, action.targetSection);
         break;
+      case "moveToNextWeek":
+        vscode.postMessage({ type: "moveToWeek", ...target, pickWeek: false });
+        break;
+      case "moveToWeek":
+        vscode.postMessage({ type: "moveToWeek", ...target, pickWeek: true });
+        break;
       case "deleteTask":
-        vscode.postMessage({ type: "deleteTask", cardId: card.id });
+        vscode.postMessage({ type: "deleteTask", ...target });
         break;
     }
   };
 
+  // Relative due dates (due:tomorrow) on cards and sub-tasks, which the
+  // extension can rewrite as ISO dates
+  const relativeDueDates = useMemo(
+    () =>
+      cards
+        .flatMap((card) => [card, ...allSubTasks(card.subTasks)])
+        .filter((task) => task.relativeDueDate).length,
+    [cards]
+  );
+
   const handleQuickAdd = () => {
     if (!boardData) return;
 
     if (viewMode === "backlog") {
-      vscode.postMessage({ type: "addTask", targetSection: "now" });
+      // The first bucket of the planner's schema, whatever it is called
+      const targetSection = boardData.backlog[0]?.key;
+      if (targetSection) {
+        vscode.postMessage({ type: "addTask", targetSection });
+      }
     } else {
       // Find today's day name
       const todayName = new Date().toLocaleDateString("en-US", { weekday: "long" });
@@ -271,71 +349,94 @@ export function App() {
 
   return (
     <ContextMenuContext.Provider value={openContextMenu}>
-      <div className="app">
-        <div className="header">
-          <div className="header-main">
-            <h1>Hexfield Deck</h1>
-            {isDirty && (
-              <span className="unsaved-indicator" title="File has unsaved changes">
-                ● Unsaved changes
-              </span>
-            )}
-          </div>
-          <div className="header-row">
-            <div className="subtitle">
-              Week {boardData.frontmatter.week}, {boardData.frontmatter.year}
-            </div>
-            <div className="toolbar-right">
-              <FilterDropdown
-                cards={cards}
-                filter={activeFilter}
-                onChange={setActiveFilter}
-              />
-              <button
-                className="quick-add-btn"
-                onClick={handleQuickAdd}
-                title="Add task"
-              >
-                +
-              </button>
-              <div className="view-switcher">
-                <button
-                  className={`view-btn ${viewMode === "standard" ? "active" : ""}`}
-                  onClick={() => handleViewChange("standard")}
-                  title="Standard view — 3-column kanban"
-                >
-                  Standard
-                </button>
-                <button
-                  className={`view-btn ${viewMode === "swimlane" ? "active" : ""}`}
-                  onClick={() => handleViewChange("swimlane")}
-                  title="Swimlane view — grouped by day"
-                >
-                  Swimlane
-                </button>
-                <button
-                  className={`view-btn ${viewMode === "backlog" ? "active" : ""}`}
-                  onClick={() => handleViewChange("backlog")}
-                  title="Backlog view — priority buckets"
-                >
-                  Backlog
-                </button>
+      <OpenCardContext.Provider value={openCard}>
+        <TimerContext.Provider value={timerHandlers}>
+          <div className="app">
+            <div className="header">
+              <div className="header-main">
+                <h1>Hexfield Deck</h1>
+                {isDirty && (
+                  <span className="unsaved-indicator" title="File has unsaved changes">
+                    ● Unsaved changes
+                  </span>
+                )}
+                {relativeDueDates > 0 && (
+                  <button
+                    className="relative-dates-btn"
+                    onClick={() => vscode.postMessage({ type: "resolveRelativeDueDates" })}
+                    title="Replace due:tomorrow, due:fri, … with the dates they stand for, so the file reads the same on any day"
+                  >
+                    {relativeDueDates === 1 ? "1 relative due date" : `${relativeDueDates} relative due dates`}
+                    {" · Rewrite as dates"}
+                  </button>
+                )}
+              </div>
+              <div className="header-row">
+                {combined ? (
+                  <div className="subtitle" title={combined.sources.join("\n")}>
+                    {combined.label} · {combined.sources.length === 1 ? "1 planner file" : `${combined.sources.length} planner files`}
+                  </div>
+                ) : (
+                  <div className="subtitle">
+                    Week {boardData.frontmatter.week}, {boardData.frontmatter.year}
+                  </div>
+                )}
+                <div className="toolbar-right">
+                  <FilterDropdown
+                    cards={cards}
+                    filter={activeFilter}
+                    userHandle={userHandle}
+                    onChange={setActiveFilter}
+                  />
+                  {!combined && (
+                    <button
+                      className="quick-add-btn"
+                      onClick={handleQuickAdd}
+                      title="Add task"
+                    >
+                      +
+                    </button>
+                  )}
+                  <div className="view-switcher">
+                    <button
+                      className={`view-btn ${viewMode === "standard" ? "active" : ""}`}
+                      onClick={() => handleViewChange("standard")}
+                      title="Standard view — 3-column kanban"
+                    >
+                      Standard
+                    </button>
+                    <button
+                      className={`view-btn ${viewMode === "swimlane" ? "active" : ""}`}
+                      onClick={() => handleViewChange("swimlane")}
+                      title="Swimlane view — grouped by day"
+                    >
+                      Swimlane
+                    </button>
+                    <button
+                      className={`view-btn ${viewMode === "backlog" ? "active" : ""}`}
+                      onClick={() => handleViewChange("backlog")}
+                      title="Backlog view — priority buckets"
+                    >
+                      Backlog
+                    </button>
+                  </div>
+                </div>
               </div>
             </div>
+            {renderView()}
+            {contextMenu && boardData && (
+              <ContextMenu
+                card={contextMenu.card}
+                x={contextMenu.x}
+                y={contextMenu.y}
+                boardData={boardData}
+                onAction={handleContextMenuAction}
+                onClose={() => setContextMenu(null)}
+              />
+            )}
           </div>
-        </div>
-        {renderView()}
-        {contextMenu && boardData && (
-          <ContextMenu
-            card={contextMenu.card}
-            x={contextMenu.x}
-            y={contextMenu.y}
-            boardData={boardData}
-            onAction={handleContextMenuAction}
-            onClose={() => setContextMenu(null)}
-          />
-        )}
-      </div>
+        </TimerContext.Provider>
+      </OpenCardContext.Provider>
     </ContextMenuContext.Provider>
   );
 }
@@ -1,5 +1,6 @@
 import React, { useState } from "react";
 import { MarkdownTitle } from "./MarkdownTitle.js";
+import { AssigneeAvatars, SourceBadge, statusBadge, statusIcon, timeBadge } from "./Card.js";
 import {
   DndContext,
   DragEndEvent,
@@ -16,6 +17,7 @@ import {
 import { CSS } from "@dnd-kit/utilities";
 import { SortBar, sortCards } from "./SortBar.js";
 import type { SortKey } from "./SortBar.js";
+import { subTaskProgress } from "@hexfield-deck/core";
 import type { BoardData, Card } from "@hexfield-deck/core";
 
 interface BacklogViewProps {
@@ -38,14 +40,10 @@ function getBuckets(boardData: BoardData): Bucket[] {
     buckets.push({ id: `backlog-${b.key}`, title: b.label, sectionKey: b.key, cards: b.cards });
   }
 
-  if (boardData.thisQuarter.length > 0) {
-    buckets.push({ id: "backlog-this-quarter", title: "This Quarter", sectionKey: "this-quarter", cards: boardData.thisQuarter });
-  }
-  if (boardData.thisYear.length > 0) {
-    buckets.push({ id: "backlog-this-year", title: "This Year", sectionKey: "this-year", cards: boardData.thisYear });
-  }
-  if (boardData.parkingLot.length > 0) {
-    buckets.push({ id: "backlog-parking-lot", title: "Parking Lot", sectionKey: "parking-lot", cards: boardData.parkingLot });
+  for (const s of boardData.longTerm) {
+    if (s.cards.length > 0) {
+      buckets.push({ id: `backlog-${s.key}`, title: s.label, sectionKey: s.key, cards: s.cards });
+    }
   }
 
   return buckets;
@@ -117,6 +115,9 @@ function DraggableBacklogCard({
     transition,
     opacity: isDragging ? 0.5 : 1,
   };
+  const progress = subTaskProgress(card.subTasks);
+  const badge = statusBadge(card);
+  const time = timeBadge(card);
 
   return (
     <div
@@ -132,26 +133,44 @@ function DraggableBacklogCard({
         onClick={() => onStatusClick(card)}
         title={`Status: ${card.status} (click to change)`}
       >
-        {card.status === "done" ? "✓" : card.status === "in-progress" ? "◐" : "○"}
+        {statusIcon(card.status)}
       </button>
       <div className="backlog-card-content">
         <MarkdownTitle title={card.title} />
         <div className="card-badges">
+          {badge && (
+            <span className="badge" style={{ color: badge.color }}>
+              {badge.label}
+            </span>
+          )}
+          <AssigneeAvatars assignees={card.assignees} />
           {card.project && (
             <span className="badge" style={{ color: "var(--vscode-charts-blue)" }}>
               {card.project}
             </span>
           )}
+          {card.tags
+            .filter((tag) => tag !== card.project)
+            .map((tag) => (
+              <span key={tag} className="badge">#{tag}</span>
+            ))}
           {card.priority && (
             <span className="badge" style={{ color: getPriorityColor(card.priority) }}>
               {card.priority.toUpperCase()}
             </span>
           )}
-          {card.timeEstimate && <span className="badge">{card.timeEstimate}</span>}
+          {time && (
+            <span className="badge" style={{ color: time.color }}>
+              {time.label}
+            </span>
+          )}
+          <SourceBadge card={card} />
         </div>
         {card.subTasks.length > 0 && (
           <div className="backlog-subtask-summary">
-            {card.subTasks.filter((st) => st.status === "done").length}/{card.subTasks.length} subtasks
+            {progress.total > 0
+              ? `${progress.done}/${progress.total} subtasks`
+              : "All subtasks cancelled"}
           </div>
         )}
       </div>
@@ -9,12 +9,13 @@ import {
 import { Column } from "./Column.js";
 import { SortBar, sortCards } from "./SortBar.js";
 import type { SortKey } from "./SortBar.js";
-import type { Card, TaskStatus } from "@hexfield-deck/core";
+import { statusColumn } from "@hexfield-deck/core";
+import type { Card, TaskStatus, SubTask } from "@hexfield-deck/core";
 
 interface BoardProps {
   cards: Card[];
   onCardMove: (cardId: string, newStatus: string) => void;
-  onToggleSubTask: (lineNumber: number) => void;
+  onToggleSubTask: (subTask: SubTask, card: Card) => void;
 }
 
 export function Board({ cards, onCardMove, onToggleSubTask }: BoardProps) {
@@ -45,17 +46,18 @@ export function Board({ cards, onCardMove, onToggleSubTask }: BoardProps) {
     } else {
       const targetCard = cards.find((c) => c.id === overId);
       if (!targetCard) return;
-      newStatus = targetCard.status;
+      newStatus = statusColumn(targetCard.status);
     }
 
-    if (card.status !== newStatus) {
+    // Blocked, deferred and cancelled cards keep their state within their column
+    if (statusColumn(card.status) !== newStatus) {
       onCardMove(cardId, newStatus);
     }
   };
 
-  const todoCards = sortCards(cards.filter((c) => c.status === "todo"), sortKey);
-  const inProgressCards = sortCards(cards.filter((c) => c.status === "in-progress"), sortKey);
-  const doneCards = sortCards(cards.filter((c) => c.status === "done"), sortKey);
+  const todoCards = sortCards(cards.filter((c) => statusColumn(c.status) === "todo"), sortKey);
+  const inProgressCards = sortCards(cards.filter((c) => statusColumn(c.status) === "in-progress"), sortKey);
+  const doneCards = sortCards(cards.filter((c) => statusColumn(c.status) === "done"), sortKey);
 
   return (
     <>
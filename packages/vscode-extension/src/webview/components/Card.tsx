@@ -1,25 +1,25 @@
-import React, { useContext } from "react";
+import React, { useContext, useEffect, useState } from "react";
 import { useSortable } from "@dnd-kit/sortable";
 import { CSS } from "@dnd-kit/utilities";
 import { marked } from "marked";
-import type { Card, SubTask } from "@hexfield-deck/core";
-import { ContextMenuContext } from "./App.js";
+import {
+  daysBetween,
+  formatDuration,
+  formatIsoDate,
+  isBlocked,
+  subTaskProgress,
+} from "@hexfield-deck/core";
+import type { Card, SubTask, TaskStatus } from "@hexfield-deck/core";
+import { ContextMenuContext, OpenCardContext, TimerContext } from "./App.js";
 import { MarkdownTitle } from "./MarkdownTitle.js";
 
 interface CardProps {
   card: Card;
-  onToggleSubTask: (lineNumber: number) => void;
+  onToggleSubTask: (subTask: SubTask, card: Card) => void;
 }
 
 function getDueDateColor(dueDate: string): string {
-  const today = new Date();
-  today.setHours(0, 0, 0, 0);
-
-  const due = new Date(dueDate);
-  due.setHours(0, 0, 0, 0);
-
-  const diffMs = due.getTime() - today.getTime();
-  const diffDays = Math.floor(diffMs / (1000 * 60 * 60 * 24));
+  const diffDays = daysBetween(formatIsoDate(new Date()), dueDate);
 
   if (diffDays < 0) return "var(--vscode-errorForeground)";
   if (diffDays === 0) return "var(--vscode-editorWarning-foreground)";
@@ -27,6 +27,70 @@ function getDueDateColor(dueDate: string): string {
   return "var(--vscode-descriptionForeground)";
 }
 
+/** Cards that keep getting rolled over to the next week stand out. */
+function rolledOverColor(count: number): string {
+  if (count >= 3) return "var(--vscode-errorForeground)";
+  if (count === 2) return "var(--vscode-editorWarning-foreground)";
+  return "var(--vscode-descriptionForeground)";
+}
+
+/** Checkbox glyph for a status, as used in sub-task lists and the backlog. */
+export function statusIcon(status: TaskStatus): string {
+  switch (status) {
+    case "done":
+      return "✓";
+    case "in-progress":
+      return "◐";
+    case "cancelled":
+      return "✕";
+    case "blocked":
+      return "⊘";
+    case "deferred":
+      return "»";
+    default:
+      return "○";
+  }
+}
+
+/**
+ * Badge for the statuses that share a column with others, and for cards
+ * waiting on an unfinished dependency; null for the rest.
+ */
+export function statusBadge(card: Card): { label: string; color: string } | null {
+  if (isBlocked(card)) {
+    return { label: "BLOCKED", color: "var(--vscode-errorForeground)" };
+  }
+  switch (card.status) {
+    case "deferred":
+      return { label: "DEFERRED", color: "var(--vscode-descriptionForeground)" };
+    case "cancelled":
+      return { label: "CANCELLED", color: "var(--vscode-descriptionForeground)" };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Estimate vs logged time ("1h30m / 2h"), in the error color once the logged
+ * time passes the estimate; null when the card has neither.
+ */
+export function timeBadge(card: Card): { label: string; color: string } | null {
+  const { timeEstimate, timeSpent } = card;
+  if (!timeSpent) {
+    return timeEstimate
+      ? { label: timeEstimate.text, color: "var(--vscode-descriptionForeground)" }
+      : null;
+  }
+  if (!timeEstimate) {
+    return { label: `${timeSpent.text} spent`, color: "var(--vscode-descriptionForeground)" };
+  }
+  const over = timeSpent.minutes > timeEstimate.minutes;
+  return {
+    label: `${timeSpent.text} / ${timeEstimate.text}`,
+    color: over ? "var(--vscode-errorForeground)" : "var(--vscode-descriptionForeground)",
+  };
+}
+
 function getPriorityColor(priority: string): string {
   switch (priority) {
     case "high":
@@ -54,51 +118,169 @@ function Badge({
   );
 }
 
-function SubTaskProgress({
+/**
+ * On a combined board, the planner file a card comes from; clicking it opens
+ * the card there.
+ */
+export function SourceBadge({ card }: { card: Card }) {
+  const openCard = useContext(OpenCardContext);
+  if (!card.source) return null;
+  const fileName = card.source.split("/").pop() ?? card.source;
+  return (
+    <button
+      className="badge source-badge"
+      title={`Open in ${card.source}`}
+      onPointerDown={(e) => e.stopPropagation()}
+      onClick={(e) => {
+        e.stopPropagation();
+        openCard(card);
+      }}
+    >
+      {fileName}
+    </button>
+  );
+}
+
+/** Avatar initials for a handle: "alice" → "A", "bob-kim" → "BK". */
+function initials(handle: string): string {
+  return handle
+    .split(/[-_]/)
+    .filter(Boolean)
+    .slice(0, 2)
+    .map((part) => part[0].toUpperCase())
+    .join("");
+}
+
+/** One initials avatar per `@mention`. */
+export function AssigneeAvatars({ assignees }: { assignees?: string[] }) {
+  if (!assignees || assignees.length === 0) return null;
+  return (
+    <>
+      {assignees.map((handle) => (
+        <span key={handle} className="assignee-avatar" title={`@${handle}`}>
+          {initials(handle)}
+        </span>
+      ))}
+    </>
+  );
+}
+
+/** Start/stop button for the card's timer, showing the time on the clock. */
+function TimerButton({ card }: { card: Card }) {
+  const { timers, toggleTimer } = useContext(TimerContext);
+  const startedAt = timers[card.id];
+  const [now, setNow] = useState(Date.now());
+
+  // Tick while running so the elapsed time stays current
+  useEffect(() => {
+    if (startedAt === undefined) return;
+    setNow(Date.now());
+    const interval = setInterval(() => setNow(Date.now()), 30_000);
+    return () => clearInterval(interval);
+  }, [startedAt]);
+
+  const running = startedAt !== undefined;
+  const elapsed = running ? Math.max(0, Math.floor((now - startedAt) / 60_000)) : 0;
+  return (
+    <button
+      className={running ? "timer-btn timer-running" : "timer-btn"}
+      title={running ? "Stop timer and log the time" : "Start timer"}
+      onPointerDown={(e) => e.stopPropagation()}
+      onClick={(e) => {
+        e.stopPropagation();
+        toggleTimer(card);
+      }}
+    >
+      {running ? `⏹ ${formatDuration(elapsed)}` : "▶"}
+    </button>
+  );
+}
+
+function SubTaskList({
   subTasks,
   onToggle,
 }: {
   subTasks: SubTask[];
-  onToggle: (lineNumber: number) => void;
+  onToggle: (subTask: SubTask) => void;
 }) {
-  if (subTasks.length === 0) return null;
-
-  const completed = subTasks.filter((st) => st.status === "done").length;
-  const total = subTasks.length;
-  const percentage = Math.round((completed / total) * 100);
-
   return (
-    <div className="subtask-progress">
-      <div className="progress-bar-container">
-        <div className="progress-bar" style={{ width: `${percentage}%` }} />
-      </div>
-      <div className="progress-label">
-        {completed}/{total} ({percentage}%)
-      </div>
-      <div className="subtask-list">
-        {subTasks.map((st, idx) => {
-          const icon =
-            st.status === "done" ? "✓" : st.status === "in-progress" ? "◐" : "○";
-          return (
+    <div className="subtask-list">
+      {subTasks.map((st, idx) => {
+        const icon = statusIcon(st.status);
+        return (
+          <div key={idx}>
             <div
-              key={idx}
               className="subtask-item subtask-clickable"
               onPointerDown={(e) => e.stopPropagation()}
               onClick={(e) => {
                 if ((e.target as HTMLElement).closest("a")) return;
-                onToggle(st.lineNumber);
+                onToggle(st);
               }}
-              dangerouslySetInnerHTML={{ __html: `${icon} ${marked.parseInline(st.text) as string}` }}
-            />
-          );
-        })}
-      </div>
+            >
+              <span
+                dangerouslySetInnerHTML={{ __html: `${icon} ${marked.parseInline(st.title) as string}` }}
+              />
+              {st.project && <Badge label={st.project} color="var(--vscode-charts-blue)" />}
+              {st.dueDate && (
+                <Badge label={st.dueDate} color={getDueDateColor(st.dueDate)} />
+              )}
+              {st.priority && (
+                <Badge
+                  label={st.priority.toUpperCase()}
+                  color={getPriorityColor(st.priority)}
+                />
+              )}
+              {st.timeEstimate && <Badge label={st.timeEstimate.text} />}
+            </div>
+            {st.children.length > 0 && (
+              <div className="subtask-children">
+                <SubTaskList subTasks={st.children} onToggle={onToggle} />
+              </div>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+function SubTaskProgress({
+  subTasks,
+  onToggle,
+}: {
+  subTasks: SubTask[];
+  onToggle: (subTask: SubTask) => void;
+}) {
+  if (subTasks.length === 0) return null;
+
+  // Nested sub-tasks count through their leaves
+  // and cancelled ones not at all, so every sub-task may be left out
+  const { done: completed, total } = subTaskProgress(subTasks);
+  const percentage = total > 0 ? Math.round((completed / total) * 100) : 0;
+
+  return (
+    <div className="subtask-progress">
+      {total > 0 ? (
+        <>
+          <div className="progress-bar-container">
+            <div className="progress-bar" style={{ width: `${percentage}%` }} />
+          </div>
+          <div className="progress-label">
+            {completed}/{total} ({percentage}%)
+          </div>
+        </>
+      ) : (
+        <div className="progress-label">All cancelled</div>
+      )}
+      <SubTaskList subTasks={subTasks} onToggle={onToggle} />
     </div>
   );
 }
 
 export function CardComponent({ card, onToggleSubTask }: CardProps) {
   const openContextMenu = useContext(ContextMenuContext);
+  const badge = statusBadge(card);
+  const time = timeBadge(card);
   const { attributes, listeners, setNodeRef, transform, transition, isDragging } =
     useSortable({ id: card.id });
 
@@ -114,18 +296,28 @@ export function CardComponent({ card, onToggleSubTask }: CardProps) {
       style={style}
       {...attributes}
       {...listeners}
-      className="card"
+      className={card.status === "cancelled" ? "card card-cancelled" : "card"}
       onContextMenu={(e) => {
         e.preventDefault();
         openContextMenu(card, { x: e.clientX, y: e.clientY });
       }}
     >
-      <MarkdownTitle title={card.title} />
-      {(card.project || card.dueDate || card.priority || card.timeEstimate || card.day) && (
+      <div className="card-title-row">
+        <MarkdownTitle title={card.title} />
+        <TimerButton card={card} />
+      </div>
+      {(badge || card.assignees || card.tags.length > 0 || card.dueDate || card.priority || time || card.recurrence || card.rolledOver || card.day || card.source) && (
         <div className="card-badges">
+          {badge && <Badge label={badge.label} color={badge.color} />}
+          <AssigneeAvatars assignees={card.assignees} />
           {card.project && (
             <Badge label={card.project} color="var(--vscode-charts-blue)" />
           )}
+          {card.tags
+            .filter((tag) => tag !== card.project)
+            .map((tag) => (
+              <Badge key={tag} label={`#${tag}`} />
+            ))}
           {card.dueDate && (
             <Badge label={card.dueDate} color={getDueDateColor(card.dueDate)} />
           )}
@@ -135,11 +327,22 @@ export function CardComponent({ card, onToggleSubTask }: CardProps) {
               color={getPriorityColor(card.priority)}
             />
           )}
-          {card.timeEstimate && <Badge label={card.timeEstimate} />}
+          {time && <Badge label={time.label} color={time.color} />}
+          {card.recurrence && <Badge label={`🔁 ${card.recurrence.text}`} />}
+          {card.rolledOver ? (
+            <Badge
+              label={`↪ ${card.rolledOver}×`}
+              color={rolledOverColor(card.rolledOver)}
+            />
+          ) : null}
           {card.day && <Badge label={card.day} />}
+          <SourceBadge card={card} />
         </div>
       )}
-      <SubTaskProgress subTasks={card.subTasks} onToggle={onToggleSubTask} />
+      <SubTaskProgress
+        subTasks={card.subTasks}
+        onToggle={(subTask) => onToggleSubTask(subTask, card)}
+      />
     </div>
   );
 }
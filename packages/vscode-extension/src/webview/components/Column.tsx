@@ -5,21 +5,30 @@ import {
   verticalListSortingStrategy,
 } from "@dnd-kit/sortable";
 import { CardComponent } from "./Card.js";
-import type { Card } from "@hexfield-deck/core";
+import { formatDuration } from "@hexfield-deck/core";
+import type { Card, SubTask } from "@hexfield-deck/core";
 
 interface ColumnProps {
   id: string;
   title: string;
   cards: Card[];
-  onToggleSubTask: (lineNumber: number) => void;
+  onToggleSubTask: (subTask: SubTask, card: Card) => void;
 }
 
 export function Column({ id, title, cards, onToggleSubTask }: ColumnProps) {
   const { setNodeRef } = useDroppable({ id });
+  const estimated = cards.reduce((sum, card) => sum + (card.timeEstimate?.minutes ?? 0), 0);
 
   return (
     <div className="column" ref={setNodeRef}>
-      <h2 className="column-title">{title}</h2>
+      <h2 className="column-title">
+        {title}
+        {estimated > 0 && (
+          <span className="column-total" title="Total estimate">
+            {formatDuration(estimated)}
+          </span>
+        )}
+      </h2>
       <div className="cards">
         <SortableContext
           items={cards.map((c) => c.id)}
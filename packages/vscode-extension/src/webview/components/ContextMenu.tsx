@@ -1,5 +1,5 @@
 import React, { useEffect, useRef } from "react";
-import type { Card, BoardData } from "@hexfield-deck/core";
+import type { Card, BoardData, TaskStatus } from "@hexfield-deck/core";
 
 export type ContextMenuAction =
   | { type: "openInMarkdown" }
@@ -7,9 +7,11 @@ export type ContextMenuAction =
   | { type: "editDueDate" }
   | { type: "editTimeEstimate" }
   | { type: "setPriority"; priority: "high" | "medium" | "low" | "none" }
-  | { type: "changeState"; newStatus: "todo" | "in-progress" | "done" }
+  | { type: "changeState"; newStatus: TaskStatus }
   | { type: "moveToDay"; targetDay: string; newStatus: string }
   | { type: "moveToBacklog"; targetSection: string }
+  | { type: "moveToNextWeek" }
+  | { type: "moveToWeek" }
   | { type: "deleteTask" };
 
 interface ContextMenuProps {
@@ -31,14 +33,17 @@ interface MenuItem {
 
 function getMenuItems(card: Card, boardData: BoardData): MenuItem[] {
   const dayNames = boardData.days.map((d) => d.dayName);
-  const backlogSections = [
-    { label: "Now", key: "now" },
-    { label: "Next 2 Weeks", key: "next-2-weeks" },
-    { label: "This Month", key: "this-month" },
-    { label: "This Quarter", key: "this-quarter" },
-    { label: "This Year", key: "this-year" },
-    { label: "Parking Lot", key: "parking-lot" },
-  ];
+  const { backlogBuckets, longTermSections } = boardData.schema;
+  const backlogSections = [...backlogBuckets, ...longTermSections];
+  // Sections missing from the file have no heading to move a card under
+  const presentKeys = new Set(
+    [...boardData.backlog, ...boardData.longTerm].map((s) => s.key),
+  );
+  // Other weeks' files are found by week number, so the planner needs one
+  // (on a combined board, the card's own file does)
+  const hasWeek =
+    (boardData.frontmatter.week > 0 && boardData.frontmatter.year > 0) ||
+    card.source !== undefined;
 
   const items: MenuItem[] = [
     { label: "Open in Markdown", action: { type: "openInMarkdown" } },
@@ -62,6 +67,10 @@ function getMenuItems(card: Card, boardData: BoardData): MenuItem[] {
         { label: "To Do", action: { type: "changeState", newStatus: "todo" } },
         { label: "In Progress", action: { type: "changeState", newStatus: "in-progress" } },
         { label: "Done", action: { type: "changeState", newStatus: "done" } },
+        { label: "", separator: true },
+        { label: "Blocked", action: { type: "changeState", newStatus: "blocked" } },
+        { label: "Deferred", action: { type: "changeState", newStatus: "deferred" } },
+        { label: "Cancelled", action: { type: "changeState", newStatus: "cancelled" } },
       ],
     },
     { label: "", separator: true },
@@ -82,13 +91,14 @@ function getMenuItems(card: Card, boardData: BoardData): MenuItem[] {
     submenu: backlogSections.map((s) => ({
       label: s.label,
       action: { type: "moveToBacklog" as const, targetSection: s.key },
+      disabled: !presentKeys.has(s.key),
     })),
   });
 
   items.push(
     { label: "", separator: true },
-    { label: "Move to Next Week", disabled: true },
-    { label: "Move to Week...", disabled: true },
+    { label: "Move to Next Week", action: { type: "moveToNextWeek" }, disabled: !hasWeek },
+    { label: "Move to Week...", action: { type: "moveToWeek" }, disabled: !hasWeek },
     { label: "", separator: true },
     { label: "Delete Task...", action: { type: "deleteTask" } },
   );
@@ -5,7 +5,11 @@ export type DueDateBucket = "overdue" | "today" | "this-week" | "none";
 export type EstimateBucket = "none" | "short" | "medium" | "long";
 
 export interface FilterState {
+  /** Only cards assigned to the configured user handle. */
+  myTasks: boolean;
+  people: string[];
   projects: string[];
+  tags: string[];
   priorities: Priority[];
   dueDates: DueDateBucket[];
   statuses: TaskStatus[];
@@ -13,7 +17,10 @@ export interface FilterState {
 }
 
 export const EMPTY_FILTER: FilterState = {
+  myTasks: false,
+  people: [],
   projects: [],
+  tags: [],
   priorities: [],
   dueDates: [],
   statuses: [],
@@ -22,7 +29,10 @@ export const EMPTY_FILTER: FilterState = {
 
 export function isFilterActive(f: FilterState): boolean {
   return (
+    f.myTasks ||
+    f.people.length > 0 ||
     f.projects.length > 0 ||
+    f.tags.length > 0 ||
     f.priorities.length > 0 ||
     f.dueDates.length > 0 ||
     f.statuses.length > 0 ||
@@ -47,6 +57,9 @@ const STATUS_OPTIONS: { value: TaskStatus; label: string }[] = [
   { value: "todo", label: "To Do" },
   { value: "in-progress", label: "In Progress" },
   { value: "done", label: "Done" },
+  { value: "blocked", label: "Blocked" },
+  { value: "deferred", label: "Deferred" },
+  { value: "cancelled", label: "Cancelled" },
 ];
 
 const ESTIMATE_OPTIONS: { value: EstimateBucket; label: string }[] = [
@@ -59,10 +72,12 @@ const ESTIMATE_OPTIONS: { value: EstimateBucket; label: string }[] = [
 interface FilterDropdownProps {
   cards: Card[];
   filter: FilterState;
+  /** The `hexfield-deck.userHandle` setting; empty hides "My tasks". */
+  userHandle: string;
   onChange: (f: FilterState) => void;
 }
 
-export function FilterDropdown({ cards, filter, onChange }: FilterDropdownProps) {
+export function FilterDropdown({ cards, filter, userHandle, onChange }: FilterDropdownProps) {
   const [isOpen, setIsOpen] = useState(false);
   const ref = useRef<HTMLDivElement>(null);
 
@@ -71,8 +86,18 @@ export function FilterDropdown({ cards, filter, onChange }: FilterDropdownProps)
     ...new Set(cards.map((c) => c.project).filter((p): p is string => !!p)),
   ].sort();
 
+  const people = [...new Set(cards.flatMap((c) => c.assignees ?? []))].sort();
+
+  // Context tags: every tag that isn't a card's project
+  const tags = [
+    ...new Set(cards.flatMap((c) => c.tags.filter((t) => t !== c.project))),
+  ].sort();
+
   const activeCount =
+    (filter.myTasks ? 1 : 0) +
+    filter.people.length +
     filter.projects.length +
+    filter.tags.length +
     filter.priorities.length +
     filter.dueDates.length +
     filter.statuses.length +
@@ -90,6 +115,13 @@ export function FilterDropdown({ cards, filter, onChange }: FilterDropdownProps)
     return () => document.removeEventListener("mousedown", handler);
   }, [isOpen]);
 
+  function togglePerson(p: string) {
+    const next = filter.people.includes(p)
+      ? filter.people.filter((x) => x !== p)
+      : [...filter.people, p];
+    onChange({ ...filter, people: next });
+  }
+
   function toggleProject(p: string) {
     const next = filter.projects.includes(p)
       ? filter.projects.filter((x) => x !== p)
@@ -97,6 +129,13 @@ export function FilterDropdown({ cards, filter, onChange }: FilterDropdownProps)
     onChange({ ...filter, projects: next });
   }
 
+  function toggleTag(t: string) {
+    const next = filter.tags.includes(t)
+      ? filter.tags.filter((x) => x !== t)
+      : [...filter.tags, t];
+    onChange({ ...filter, tags: next });
+  }
+
   function togglePriority(p: Priority) {
     const next = filter.priorities.includes(p)
       ? filter.priorities.filter((x) => x !== p)
@@ -140,6 +179,35 @@ export function FilterDropdown({ cards, filter, onChange }: FilterDropdownProps)
 
       {isOpen && (
         <div className="filter-panel">
+          {userHandle && (
+            <div className="filter-section">
+              <label className="filter-option">
+                <input
+                  type="checkbox"
+                  checked={filter.myTasks}
+                  onChange={() => onChange({ ...filter, myTasks: !filter.myTasks })}
+                />
+                My tasks (@{userHandle})
+              </label>
+            </div>
+          )}
+
+          {people.length > 0 && (
+            <div className="filter-section">
+              <div className="filter-section-label">People</div>
+              {people.map((p) => (
+                <label key={p} className="filter-option">
+                  <input
+                    type="checkbox"
+                    checked={filter.people.includes(p)}
+                    onChange={() => togglePerson(p)}
+                  />
+                  @{p}
+                </label>
+              ))}
+            </div>
+          )}
+
           {projects.length > 0 && (
             <div className="filter-section">
               <div className="filter-section-label">Project</div>
@@ -156,6 +224,22 @@ export function FilterDropdown({ cards, filter, onChange }: FilterDropdownProps)
             </div>
           )}
 
+          {tags.length > 0 && (
+            <div className="filter-section">
+              <div className="filter-section-label">Tag</div>
+              {tags.map((t) => (
+                <label key={t} className="filter-option">
+                  <input
+                    type="checkbox"
+                    checked={filter.tags.includes(t)}
+                    onChange={() => toggleTag(t)}
+                  />
+                  #{t}
+                </label>
+              ))}
+            </div>
+          )}
+
           <div className="filter-section">
             <div className="filter-section-label">Status</div>
             {STATUS_OPTIONS.map(({ value, label }) => (
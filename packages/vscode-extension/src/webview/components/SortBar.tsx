@@ -12,17 +12,14 @@ const SORT_OPTIONS: { key: SortKey; label: string }[] = [
 ];
 
 const PRIORITY_ORDER: Record<string, number> = { high: 0, medium: 1, low: 2 };
-const STATUS_ORDER: Record<string, number> = { "in-progress": 0, "todo": 1, "done": 2 };
-
-function parseEstimateMinutes(est?: string): number {
-  if (!est) return Infinity;
-  let total = 0;
-  const hours = est.match(/(\d+)h/);
-  const mins = est.match(/(\d+)m/);
-  if (hours) total += parseInt(hours[1]) * 60;
-  if (mins) total += parseInt(mins[1]);
-  return total || Infinity;
-}
+const STATUS_ORDER: Record<string, number> = {
+  "in-progress": 0,
+  "todo": 1,
+  "blocked": 2,
+  "deferred": 3,
+  "done": 4,
+  "cancelled": 5,
+};
 
 export function sortCards(cards: Card[], sortKey: SortKey): Card[] {
   if (sortKey === "default") return cards;
@@ -45,7 +42,10 @@ export function sortCards(cards: Card[], sortKey: SortKey): Card[] {
         return ap.localeCompare(bp);
       }
       case "estimate": {
-        return parseEstimateMinutes(a.timeEstimate) - parseEstimateMinutes(b.timeEstimate);
+        // Cards without an estimate go last
+        const ae = a.timeEstimate?.minutes ?? Infinity;
+        const be = b.timeEstimate?.minutes ?? Infinity;
+        return ae === be ? 0 : ae - be;
       }
       default:
         return 0;
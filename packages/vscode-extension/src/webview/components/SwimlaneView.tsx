@@ -14,13 +14,14 @@ import {
 import { CardComponent } from "./Card.js";
 import { SortBar, sortCards } from "./SortBar.js";
 import type { SortKey } from "./SortBar.js";
-import type { BoardData, Card, TaskStatus } from "@hexfield-deck/core";
+import { statusColumn } from "@hexfield-deck/core";
+import type { BoardColumn, BoardData, Card, SubTask, TaskStatus } from "@hexfield-deck/core";
 
 interface SwimlaneViewProps {
   boardData: BoardData;
   onCardMove: (cardId: string, newStatus: string) => void;
   onCardMoveToDay: (cardId: string, targetDay: string, newStatus: string) => void;
-  onToggleSubTask: (lineNumber: number) => void;
+  onToggleSubTask: (subTask: SubTask, card: Card) => void;
 }
 
 interface SwimlaneRow {
@@ -31,7 +32,7 @@ interface SwimlaneRow {
   isBacklog?: boolean;
 }
 
-const STATUS_COLUMNS: { id: TaskStatus; label: string }[] = [
+const STATUS_COLUMNS: { id: BoardColumn; label: string }[] = [
   { id: "todo", label: "To Do" },
   { id: "in-progress", label: "In Progress" },
   { id: "done", label: "Done" },
@@ -45,7 +46,7 @@ function MiniColumn({
 }: {
   droppableId: string;
   cards: Card[];
-  onToggleSubTask: (lineNumber: number) => void;
+  onToggleSubTask: (subTask: SubTask, card: Card) => void;
 }) {
   const { setNodeRef, isOver } = useDroppable({ id: droppableId });
 
@@ -81,9 +82,7 @@ function buildRows(boardData: BoardData): SwimlaneRow[] {
   // Combine all backlog cards into one row
   const backlogCards: Card[] = [
     ...boardData.backlog.flatMap((b) => b.cards),
-    ...boardData.thisQuarter,
-    ...boardData.thisYear,
-    ...boardData.parkingLot,
+    ...boardData.longTerm.flatMap((s) => s.cards),
   ];
   if (backlogCards.length > 0) {
     rows.push({
@@ -99,7 +98,7 @@ function buildRows(boardData: BoardData): SwimlaneRow[] {
 }
 
 /** Parse a composite droppable ID like "Monday:todo" */
-function parseDropId(id: string): { day: string; status: TaskStatus } | null {
+function parseDropId(id: string): { day: string; status: BoardColumn } | null {
   const parts = id.split(":");
   if (parts.length !== 2) return null;
   const [day, status] = parts;
@@ -109,6 +108,11 @@ function parseDropId(id: string): { day: string; status: TaskStatus } | null {
   return null;
 }
 
+/** The status a card lands with in `column`: blocked stays blocked within To Do, and so on. */
+function keepStatus(card: Card, column: BoardColumn): TaskStatus {
+  return statusColumn(card.status) === column ? card.status : column;
+}
+
 export function SwimlaneView({
   boardData,
   onCardMove,
@@ -162,14 +166,14 @@ export function SwimlaneView({
       const targetRow = dropTarget.day;
       const sameRow = sourceRow === targetRow;
 
-      if (sameRow && card.status === dropTarget.status) return;
+      if (sameRow && statusColumn(card.status) === dropTarget.status) return;
 
       if (sameRow || isBacklogCard(card) || targetRow === "Backlog") {
         // Same row, or involves backlog — just change status
         onCardMove(cardId, dropTarget.status);
       } else {
         // Cross-day move (between actual day sections)
-        onCardMoveToDay(cardId, dropTarget.day, dropTarget.status);
+        onCardMoveToDay(cardId, dropTarget.day, keepStatus(card, dropTarget.status));
       }
       return;
     }
@@ -182,14 +186,15 @@ export function SwimlaneView({
     const targetRow = getCardRow(targetCard);
     const sameRow = sourceRow === targetRow;
 
-    if (sameRow && card.status === targetCard.status) return;
+    const targetStatus = statusColumn(targetCard.status);
+    if (sameRow && statusColumn(card.status) === targetStatus) return;
 
     if (sameRow || isBacklogCard(card) || isBacklogCard(targetCard)) {
       // Same row, or involves backlog — just change status
-      onCardMove(cardId, targetCard.status);
+      onCardMove(cardId, targetStatus);
     } else {
       // Cross-day move
-      onCardMoveToDay(cardId, targetRow, targetCard.status);
+      onCardMoveToDay(cardId, targetRow, keepStatus(card, targetStatus));
     }
   };
 
@@ -209,9 +214,9 @@ export function SwimlaneView({
         {/* Rows */}
         {rows.map((row) => {
           const isCollapsed = collapsed[row.key] ?? false;
-          const todoCards = sortCards(row.cards.filter((c) => c.status === "todo"), sortKey);
-          const inProgressCards = sortCards(row.cards.filter((c) => c.status === "in-progress"), sortKey);
-          const doneCards = sortCards(row.cards.filter((c) => c.status === "done"), sortKey);
+          const todoCards = sortCards(row.cards.filter((c) => statusColumn(c.status) === "todo"), sortKey);
+          const inProgressCards = sortCards(row.cards.filter((c) => statusColumn(c.status) === "in-progress"), sortKey);
+          const doneCards = sortCards(row.cards.filter((c) => statusColumn(c.status) === "done"), sortKey);
           const totalCards = row.cards.length;
 
           return (
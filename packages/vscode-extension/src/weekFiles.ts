@@ -0,0 +1,163 @@
+import * as vscode from "vscode";
+import {
+  applyTextEdits,
+  generateWeekPlanner,
+  parseBoard,
+  weekFilePath,
+} from "@hexfield-deck/core";
+import type {
+  FileMoveEdits,
+  ParseOptions,
+  PlannerSchema,
+  PlannerWeek,
+} from "@hexfield-deck/core";
+import { addTextEdits } from "./textEdits.js";
+
+/**
+ * `path` as a URI: absolute paths as they are, relative ones under the
+ * workspace folder of `scope` (or the first workspace folder). Undefined
+ * when a relative path has no workspace folder to be relative to.
+ */
+function resolvePath(scope: vscode.Uri | undefined, path: string): vscode.Uri | undefined {
+  if (path.startsWith("/") || /^[a-zA-Z]:[\\/]/.test(path)) {
+    return vscode.Uri.file(path);
+  }
+  const folder =
+    (scope && vscode.workspace.getWorkspaceFolder(scope)) ??
+    vscode.workspace.workspaceFolders?.[0];
+  return folder ? vscode.Uri.joinPath(folder.uri, path) : undefined;
+}
+
+/**
+ * The folder `hexfield-deck.plannerRoot` names, relative to the workspace
+ * folder of `scope`. Undefined when there is no folder to resolve it in.
+ */
+export function plannerRootUri(scope: vscode.Uri | undefined): vscode.Uri | undefined {
+  const root = vscode.workspace.getConfiguration("hexfield-deck").get<string>("plannerRoot", "");
+  return resolvePath(scope, root);
+}
+
+/**
+ * Where `week`'s planner file lives: `hexfield-deck.weekFilePattern` under
+ * the planner root. Undefined when there is no pattern or no folder to
+ * resolve it in.
+ */
+export function weekFileUri(
+  scope: vscode.Uri | undefined,
+  week: PlannerWeek,
+): vscode.Uri | undefined {
+  const pattern = vscode.workspace
+    .getConfiguration("hexfield-deck")
+    .get<string>("weekFilePattern", "");
+  if (!pattern) return undefined;
+  const root = plannerRootUri(scope);
+  return root && vscode.Uri.joinPath(root, weekFilePath(pattern, week));
+}
+
+/**
+ * The text of a new planner for `week`, from the `hexfield-deck.weekTemplate`
+ * file when one is set and otherwise from the default template. Reports a
+ * template that can't be read and returns undefined.
+ */
+export async function newWeekPlannerText(
+  scope: vscode.Uri | undefined,
+  week: PlannerWeek,
+  schema?: PlannerSchema,
+): Promise<string | undefined> {
+  const templatePath = vscode.workspace
+    .getConfiguration("hexfield-deck")
+    .get<string>("weekTemplate", "");
+  if (!templatePath) return generateWeekPlanner(week, schema);
+
+  const uri = resolvePath(scope, templatePath);
+  try {
+    if (!uri) throw new Error("no workspace folder to find it in");
+    const bytes = await vscode.workspace.fs.readFile(uri);
+    return generateWeekPlanner(week, schema, new TextDecoder().decode(bytes));
+  } catch (error) {
+    vscode.window.showErrorMessage(
+      `Hexfield Deck: Failed to read the week template ${templatePath}: ${error}`,
+    );
+    return undefined;
+  }
+}
+
+/** A week's planner file: its current text, or the text it will be created with. */
+export interface WeekPlannerFile {
+  uri: vscode.Uri;
+  text: string;
+  exists: boolean;
+}
+
+/**
+ * Read `week`'s planner file at `uri`, or when there is none yet, the new
+ * planner **New Week** would create there. Undefined when the week
+ * template can't be read (which is reported).
+ */
+export async function loadWeekPlanner(
+  uri: vscode.Uri,
+  week: PlannerWeek,
+  schema?: PlannerSchema,
+): Promise<WeekPlannerFile | undefined> {
+  if (await fileExists(uri)) {
+    const document = await vscode.workspace.openTextDocument(uri);
+    return { uri, text: document.getText(), exists: true };
+  }
+  const text = await newWeekPlannerText(uri, week, schema);
+  return text === undefined ? undefined : { uri, text, exists: false };
+}
+
+/**
+ * One workspace edit for cards moving from `source` to `target`, creating
+ * the target file when it doesn't exist yet, so a single undo reverts it.
+ */
+export function fileMoveEdit(
+  source: vscode.Uri,
+  target: WeekPlannerFile,
+  moved: FileMoveEdits,
+): vscode.WorkspaceEdit {
+  const edit = new vscode.WorkspaceEdit();
+  addTextEdits(edit, source, moved.source);
+  if (target.exists) {
+    addTextEdits(edit, target.uri, moved.target);
+  } else {
+    edit.createFile(target.uri);
+    edit.insert(
+      target.uri,
+      new vscode.Position(0, 0),
+      applyTextEdits(target.text, moved.target),
+    );
+  }
+  return edit;
+}
+
+/** Whether a file exists at `uri`. */
+export async function fileExists(uri: vscode.Uri): Promise<boolean> {
+  try {
+    await vscode.workspace.fs.stat(uri);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The planner files matching `pattern`, opened and in path order. Markdown
+ * files without a single day, backlog or long-term section are left out.
+ */
+export async function findPlannerFiles(
+  pattern: vscode.RelativePattern,
+  options: ParseOptions,
+): Promise<vscode.TextDocument[]> {
+  const uris = await vscode.workspace.findFiles(pattern, "**/node_modules/**");
+  uris.sort((a, b) => a.path.localeCompare(b.path));
+  const documents: vscode.TextDocument[] = [];
+  for (const uri of uris) {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const board = parseBoard(document.getText(), options);
+    if (board.days.length + board.backlog.length + board.longTerm.length > 0) {
+      documents.push(document);
+    }
+  }
+  return documents;
+}